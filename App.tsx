@@ -1,14 +1,41 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { AppState, Page, ThemeOption } from './types';
-import { extractGenericTable } from './services/geminiService';
-import { fileToBase64, convertPdfToImages, downloadExcelMultiSheet, downloadExcelMasterSheet } from './utils/fileUtils';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { AppState, BatchProgress, ColumnType, ExtractedDataRow, ExtractionMethod, ExtractionOptions, ExtractionTemplate, FilterRunResult, ImageProcessingSettings, Page, PresetSettings, ProcessingPreset, PdfImportOptions, ProjectSummary, ReferenceTable, SaveStatus, SkippedFile, ThemeOption } from './types';
+import { AUTOSAVE_DELAY_MS, BUILT_IN_PRESETS, BUILT_IN_TEMPLATES, DEFAULT_BATCH_CONCURRENCY, DEFAULT_PDF_IMPORT_OPTIONS, DEFAULT_PROJECT_NAME, DEFAULT_SETTINGS, FILE_INPUT_ACCEPT, STRIP_COUNT_CHOICES } from './constants';
+import { extractTable, getActiveProvider } from './services/extractionService';
+import { prepareImage } from './services/payloadService';
+import { extractFromTextLayer, textLayerMatchesImage } from './services/textLayerExtraction';
+import { extractInStrips } from './services/stripExtraction';
+import { isAbortError, runWithConcurrency, withRetry } from './services/batchQueue';
+import { fileToBase64, renderPdfPages, downloadExcelMultiSheet, downloadExcelMasterSheet, downloadExcelDocuments } from './utils/fileUtils';
+import { decodeImageFile, validateUpload } from './utils/imageDecoders';
+import { getSourceFile, stitchDocuments } from './utils/tableStitching';
+import { processImages } from './services/imagePipeline';
+import { describeFilterRun, presetFilters } from './services/presetService';
 import ImageProcessor from './components/ImageProcessor';
 import ResultsTable from './components/ResultsTable';
+import ProjectMenu from './components/ProjectMenu';
+import HistoryMenu from './components/HistoryMenu';
+import TemplateManager from './components/TemplateManager';
+import ExportDialog from './components/ExportDialog';
+import ReconcileDialog from './components/ReconcileDialog';
+import PdfImportMenu from './components/PdfImportMenu';
+import ImportReport from './components/ImportReport';
+import ReviewImage from './components/ReviewImage';
+import SplitPane from './components/SplitPane';
+import BatchProgressBar from './components/BatchProgressBar';
+import { parseCellKey, rowBoundingBox } from './utils/tableUtils';
+import { createPageId, duplicatePages, groupBySourceFile, mergeIntoOneFile, movePages, pageIdRange, splitIntoNewFile } from './utils/pageList';
+import { EMPTY_HISTORY, jumpToEdit, recordEdit, redoEdit, undoEdit } from './utils/editHistory';
+import {
+  createProjectId, deleteProject, getLastProjectId, listProjects, loadProject, saveProject, StorageFullError,
+  listStoredTemplates, saveTemplate, deleteTemplate, listStoredPresets, savePreset, deletePreset
+} from './services/storageService';
 import { 
   Upload, Loader2, Sparkles, FileSpreadsheet, 
   Layout, ChevronRight, FileText, 
   Trash2, Play, CheckCircle, AlertCircle, FolderInput,
-  ChevronDown, Plus, AlertTriangle
+  ChevronDown, Plus, AlertTriangle, LayoutTemplate, ScanSearch, Columns2, Clock, X, Combine,
+  Copy, GripVertical, Split, Merge, RotateCcw, Folders, FileOutput, GitCompareArrows, Coins, Rows3
 } from 'lucide-react';
 
 // --- Theme Configurations ---
@@ -76,7 +103,8 @@ const ThemeSelector: React.FC<{
   );
 };
 
-const checkConsistency = (currentPages: Page[]): Page[] => {
+// In merge-document mode pages are parts of one table, so differing row counts are expected
+const checkConsistency = (currentPages: Page[], mergeDocuments = false): Page[] => {
   const completedPages = currentPages.filter(p => p.status === 'complete' && p.extractedData);
   if (completedPages.length < 2) return currentPages;
 
@@ -118,7 +146,7 @@ const checkConsistency = (currentPages: Page[]): Page[] => {
 
     // Check Row Count
     let warning = undefined;
-    if (normalizedData.length !== modeCount) {
+    if (!mergeDocuments && normalizedData.length !== modeCount) {
       warning = `Row count mismatch: Found ${normalizedData.length}, expected ${modeCount} based on similar pages.`;
     }
 
@@ -130,15 +158,269 @@ const checkConsistency = (currentPages: Page[]): Page[] => {
   });
 };
 
+type PageOutcome = 'complete' | 'error' | 'cancelled';
+
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || DEFAULT_BATCH_CONCURRENCY;
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
+    projectId: createProjectId(),
+    projectName: DEFAULT_PROJECT_NAME,
     pages: [],
     selectedPageId: null,
     globalStatus: 'idle',
-    theme: 'light'
+    theme: 'light',
+    history: EMPTY_HISTORY
   });
 
   const [isDragging, setIsDragging] = useState(false);
+  const [isRestored, setIsRestored] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Older projects the user could delete once browser storage is nearly full; never deleted unasked
+  const [reclaimableProjects, setReclaimableProjects] = useState<ProjectSummary[]>([]);
+  // Why opening or deleting a project last failed
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  // An empty project is only written once it has been saved before (e.g. all pages deleted)
+  const hasSavedRef = useRef(false);
+  // The session restore finishes asynchronously, so it checks the current pages through a ref
+  const pagesRef = useRef(state.pages);
+  pagesRef.current = state.pages;
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(BUILT_IN_TEMPLATES);
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isReconcileOpen, setIsReconcileOpen] = useState(false);
+  // Imported reference sheets stay for the session, across projects
+  const [referenceTables, setReferenceTables] = useState<ReferenceTable[]>([]);
+  // Files the last import rejected or only partly read
+  const [skippedFiles, setSkippedFiles] = useState<SkippedFile[]>([]);
+  // processPage is a stable callback, so it reads templates through a ref
+  const templatesRef = useRef(templates);
+  templatesRef.current = templates;
+  const [pdfImportOptions, setPdfImportOptions] = useState<PdfImportOptions>(DEFAULT_PDF_IMPORT_OPTIONS);
+  // processUploadedFiles is a stable callback, so it reads the options through a ref
+  const pdfImportOptionsRef = useRef(pdfImportOptions);
+  pdfImportOptionsRef.current = pdfImportOptions;
+  const [captureProvenance, setCaptureProvenance] = useState(true);
+  const captureProvenanceRef = useRef(captureProvenance);
+  captureProvenanceRef.current = captureProvenance;
+  // Pages per extraction request are split into this many strips; 1 sends whole pages
+  const [stripCount, setStripCount] = useState(1);
+  const stripCountRef = useRef(stripCount);
+  stripCountRef.current = stripCount;
+  const [mergeDocuments, setMergeDocuments] = useState(false);
+  const [presets, setPresets] = useState<ProcessingPreset[]>(BUILT_IN_PRESETS);
+  // Pages ticked in the page list; bulk actions work on these
+  const [checkedPageIds, setCheckedPageIds] = useState<string[]>([]);
+  // Last page clicked without Shift, where a Shift-click range starts
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [groupByFile, setGroupByFile] = useState(true);
+  const [collapsedFiles, setCollapsedFiles] = useState<string[]>([]);
+  const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ pageId: string; position: 'before' | 'after' } | null>(null);
+
+  // Review state for the results view
+  const [isSplitView, setIsSplitView] = useState(true);
+  const [selectedCell, setSelectedCell] = useState<string | null>(null);
+  const [selectedRow, setSelectedRow] = useState<number | null>(null);
+  const [hoveredRow, setHoveredRow] = useState<number | null>(null);
+  // In merge-document mode, show the table stitched from the page's file instead of the page alone
+  const [showMergedTable, setShowMergedTable] = useState(false);
+
+  // In-flight and queued extractions, keyed by page id, for per-page and whole-batch cancellation
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const batchControllerRef = useRef<AbortController | null>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  // The running filter run, and what the last one applied from the page list did
+  const filterRunRef = useRef<AbortController | null>(null);
+  const [filterNote, setFilterNote] = useState<{ text: string; isError?: boolean; isRunning?: boolean } | null>(null);
+
+  useEffect(() => {
+    listStoredTemplates()
+      .then(stored => setTemplates([...BUILT_IN_TEMPLATES, ...stored]))
+      .catch(err => console.error("Failed to load templates", err));
+  }, []);
+
+  useEffect(() => {
+    listStoredPresets()
+      .then(stored => setPresets([...BUILT_IN_PRESETS, ...stored]))
+      .catch(err => console.error("Failed to load presets", err));
+  }, []);
+
+  useEffect(() => {
+    setCheckedPageIds([]);
+  }, [state.projectId]);
+
+  const handleSavePreset = async (preset: ProcessingPreset) => {
+    await savePreset(preset);
+    setPresets(prev => [...prev.filter(p => p.id !== preset.id), preset]);
+  };
+
+  const handleDeletePreset = async (id: string) => {
+    await deletePreset(id);
+    setPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  const handleSaveTemplate = async (template: ExtractionTemplate) => {
+    await saveTemplate(template);
+    setTemplates(prev => [...prev.filter(t => t.id !== template.id), template]);
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    await deleteTemplate(id);
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    // Pages pointing at a removed template fall back to free-form extraction
+    setState(prev => ({
+      ...prev,
+      pages: prev.pages.map(p => p.templateId === id ? { ...p, templateId: null } : p)
+    }));
+  };
+
+  const setPageTemplate = (pageIds: string[], templateId: string | null) => {
+    setState(recordEdit('Change template', prev => ({
+      ...prev,
+      pages: prev.pages.map(p => pageIds.includes(p.id) ? { ...p, templateId } : p)
+    })));
+  };
+
+  const snapshotProject = (s: AppState) => ({
+    id: s.projectId,
+    name: s.projectName,
+    updatedAt: Date.now(),
+    pageCount: s.pages.length,
+    pages: s.pages,
+    selectedPageId: s.selectedPageId,
+  });
+
+  // Cell keys are per page, so drop the highlighted cell and row whenever another page is shown
+  useEffect(() => {
+    setSelectedCell(null);
+    setSelectedRow(null);
+    setHoveredRow(null);
+  }, [state.selectedPageId]);
+
+  // Session recovery: reopen the project that was active when the tab was closed
+  useEffect(() => {
+    const lastId = getLastProjectId();
+    if (!lastId) {
+      setIsRestored(true);
+      return;
+    }
+    loadProject(lastId)
+      .then(project => {
+        // Pages added while the project was loading belong to the new session; don't replace them
+        if (!project || pagesRef.current.length > 0) return;
+        hasSavedRef.current = true;
+        setState(prev => ({
+          ...prev,
+          projectId: project.id,
+          projectName: project.name,
+          pages: project.pages,
+          selectedPageId: project.selectedPageId,
+          history: EMPTY_HISTORY
+        }));
+      })
+      .catch(err => console.error("Failed to restore last session", err))
+      .finally(() => setIsRestored(true));
+  }, []);
+
+  // Autosave to IndexedDB, debounced so slider drags and typing don't write on every change
+  useEffect(() => {
+    if (!isRestored) return;
+    if (state.pages.length === 0 && !hasSavedRef.current) return;
+
+    setSaveStatus('saving');
+    const timer = setTimeout(() => {
+      saveProject(snapshotProject(state))
+        .then(reclaimable => {
+          hasSavedRef.current = true;
+          setSaveStatus('saved');
+          setSaveError(null);
+          setReclaimableProjects(reclaimable);
+        })
+        .catch((err: unknown) => {
+          console.error("Autosave failed", err);
+          setSaveStatus('error');
+          if (err instanceof StorageFullError) setReclaimableProjects(err.reclaimable);
+          setSaveError(err instanceof Error ? err.message : String(err));
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isRestored, state.projectId, state.projectName, state.pages, state.selectedPageId]);
+
+  const refreshProjects = () => {
+    listProjects().then(setProjects).catch(err => console.error("Failed to list projects", err));
+  };
+
+  // Flush pending changes of the current project before switching away from it
+  const flushCurrentProject = async () => {
+    if (state.pages.length === 0 && !hasSavedRef.current) return;
+    try {
+      await saveProject(snapshotProject(state));
+    } catch (err) {
+      console.error("Failed to save project before switching", err);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (id === state.projectId) return;
+    await flushCurrentProject();
+    let project;
+    try {
+      project = await loadProject(id);
+    } catch (err) {
+      console.error("Failed to open project", err);
+      setProjectError(`The project could not be opened${err instanceof Error ? `: ${err.message}` : '.'}`);
+      return;
+    }
+    if (!project) {
+      setProjectError('The project no longer exists.');
+      refreshProjects();
+      return;
+    }
+    setProjectError(null);
+    hasSavedRef.current = true;
+    setState(prev => ({
+      ...prev,
+      projectId: project.id,
+      projectName: project.name,
+      pages: project.pages,
+      selectedPageId: project.selectedPageId,
+      globalStatus: 'idle',
+      history: EMPTY_HISTORY
+    }));
+  };
+
+  const handleNewProject = async () => {
+    await flushCurrentProject();
+    hasSavedRef.current = false;
+    setSaveStatus('idle');
+    setState(prev => ({
+      ...prev,
+      projectId: createProjectId(),
+      projectName: DEFAULT_PROJECT_NAME,
+      pages: [],
+      selectedPageId: null,
+      globalStatus: 'idle',
+      history: EMPTY_HISTORY
+    }));
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      setProjectError(null);
+      setReclaimableProjects(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      console.error("Failed to delete project", err);
+      setProjectError(`The project could not be deleted${err instanceof Error ? `: ${err.message}` : '.'}`);
+    }
+    refreshProjects();
+  };
 
   // Inject Theme CSS
   useEffect(() => {
@@ -173,47 +455,55 @@ const App: React.FC = () => {
     if (!files.length) return;
     
     setState(prev => ({ ...prev, globalStatus: 'uploading' }));
-    
-    const newPages: Page[] = [];
 
+    // Pages are added as they are ready; the whole upload is still one undo step
+    const label = `Import ${files.length === 1 ? files[0].name : `${files.length} files`}`;
+    const mergeKey = `upload:${createPageId()}`;
+    const addPage = (page: Page) => setState(recordEdit(label, prev => ({
+      ...prev,
+      pages: [...prev.pages, page],
+      selectedPageId: prev.selectedPageId || page.id,
+    }), mergeKey));
+
+    const skipped: SkippedFile[] = [];
     for (const file of files) {
       try {
-        if (file.type === 'application/pdf') {
-          const images = await convertPdfToImages(file);
-          images.forEach((img, idx) => {
-            newPages.push({
-              id: Math.random().toString(36).substr(2, 9),
-              name: `${file.name} - Page ${idx + 1}`,
-              originalImage: img,
-              processedImage: img,
-              extractedData: null,
-              status: 'idle',
-              errorMessage: null
-            });
-          });
-        } else if (file.type.startsWith('image/')) {
-          const base64 = await fileToBase64(file);
-          newPages.push({
-            id: Math.random().toString(36).substr(2, 9),
-            name: file.name,
-            originalImage: base64,
-            processedImage: base64,
+        const format = await validateUpload(file);
+        if (format === 'pdf') {
+          await renderPdfPages(file, pdfImportOptionsRef.current, ({ image, pageNumber, dpi, textLayer }) => addPage({
+            id: createPageId(),
+            name: `${file.name} - Page ${pageNumber}`,
+            sourceFile: file.name,
+            sourcePageNumber: pageNumber,
+            originalImage: image,
+            processedImage: image,
+            extractedData: null,
+            status: 'idle',
+            errorMessage: null,
+            renderDpi: dpi,
+            textLayer
+          }));
+        } else {
+          await decodeImageFile(file, format, (image, pageNumber, pageCount) => addPage({
+            id: createPageId(),
+            name: pageCount > 1 ? `${file.name} - Page ${pageNumber}` : file.name,
+            sourceFile: file.name,
+            sourcePageNumber: pageNumber,
+            originalImage: image,
+            processedImage: image,
             extractedData: null,
             status: 'idle',
             errorMessage: null
-          });
+          }));
         }
       } catch (error) {
         console.error(`Error processing file ${file.name}:`, error);
+        skipped.push({ fileName: file.name, reason: error instanceof Error ? error.message : String(error) });
       }
     }
 
-    setState(prev => ({
-      ...prev,
-      pages: [...prev.pages, ...newPages],
-      selectedPageId: prev.selectedPageId || newPages[0]?.id || null,
-      globalStatus: 'idle'
-    }));
+    setSkippedFiles(skipped);
+    setState(prev => ({ ...prev, globalStatus: 'idle' }));
   }, []);
 
   // Event Handlers
@@ -242,70 +532,341 @@ const App: React.FC = () => {
   };
 
   // Fixed: Re-written to avoid relying on stale closure state
-  const processPage = useCallback(async (page: Page) => {
+  // Resolves with the outcome instead of throwing, so batch bookkeeping stays simple
+  const processPage = useCallback(async (page: Page, controller: AbortController = new AbortController()): Promise<PageOutcome> => {
     const imageToProcess = page.processedImage || page.originalImage;
-    if (!imageToProcess) return;
+    if (!imageToProcess) return 'error';
 
-    setState(prev => ({
+    const setPage = (patch: Partial<Page>) => setState(prev => ({
       ...prev,
-      pages: prev.pages.map(p => p.id === page.id ? { ...p, status: 'extracting', consistencyWarning: undefined } : p)
+      pages: prev.pages.map(p => p.id === page.id ? { ...p, ...patch } : p)
     }));
 
+    // Cancelled while still waiting in the queue
+    if (controller.signal.aborted) {
+      controllersRef.current.delete(page.id);
+      setPage({ status: 'idle' });
+      return 'cancelled';
+    }
+
+    controllersRef.current.set(page.id, controller);
+    setPage({ status: 'extracting', errorMessage: null, consistencyWarning: undefined });
+
     try {
-      const data = await extractGenericTable(imageToProcess);
-      setState(prev => ({
+      const template = templatesRef.current.find(t => t.id === page.templateId) || null;
+      // Born-digital PDF pages are read locally; scans, and pages whose headers the template doesn't know, go to the model
+      const fromTextLayer = page.textLayer
+        ? extractFromTextLayer(page.textLayer, { template, withProvenance: captureProvenanceRef.current && textLayerMatchesImage(page) })
+        : null;
+      // The image is prepared once; only the request is retried
+      const extract = async (image: string, options: ExtractionOptions) => {
+        const prepared = await prepareImage(image);
+        return withRetry(
+          () => extractTable(prepared, options),
+          {
+            signal: controller.signal,
+            onRetry: (attempt, delayMs, err: unknown) =>
+              console.warn(`Retrying page ${page.id} (attempt ${attempt}) in ${Math.round(delayMs)}ms:`, err instanceof Error ? err.message : err)
+          }
+        );
+      };
+      const options: ExtractionOptions = { template, withProvenance: captureProvenanceRef.current, signal: controller.signal };
+      // Strips are retried one by one, so a failed request doesn't repeat the ones that succeeded
+      const { rows, provenance, warnings, cost } = fromTextLayer ?? (stripCountRef.current > 1
+        ? await extractInStrips(imageToProcess, stripCountRef.current, options, extract)
+        : await extract(imageToProcess, options));
+      const extractionMethod: ExtractionMethod = fromTextLayer ? 'text-layer' : 'vision';
+      setState(recordEdit(`Extract ${page.name}`, prev => ({
         ...prev,
-        pages: prev.pages.map(p => p.id === page.id ? { ...p, extractedData: data, status: 'complete' } : p)
-      }));
-    } catch (err: any) {
+        pages: prev.pages.map(p => p.id === page.id
+          ? { ...p, extractedData: rows, cellProvenance: provenance, extractionWarnings: warnings, extractionMethod, extractionCost: cost, editedCells: [], status: 'complete' }
+          : p)
+      })));
+      return 'complete';
+    } catch (err: unknown) {
+      if (isAbortError(err)) {
+        setPage({ status: 'idle' });
+        return 'cancelled';
+      }
       console.error(`Error processing page ${page.id}:`, err);
-      setState(prev => ({
-        ...prev,
-        pages: prev.pages.map(p => p.id === page.id ? { ...p, status: 'error', errorMessage: err.message } : p)
-      }));
+      setPage({ status: 'error', errorMessage: err instanceof Error ? err.message : String(err) });
+      return 'error';
+    } finally {
+      controllersRef.current.delete(page.id);
     }
   }, []);
 
-  const processAll = useCallback(async () => {
-    // Note: We use the snapshot of state.pages from when processAll is triggered
-    const idlePages = state.pages.filter(p => p.status === 'idle' || p.status === 'error');
+  // Extracts the given pages, or every pending page; pages already extracted or running are left alone
+  const processPages = useCallback(async (pageIds?: string[]) => {
+    // Note: We use the snapshot of state.pages from when processPages is triggered
+    const idlePages = state.pages.filter(p => (p.status === 'idle' || p.status === 'error') && (!pageIds || pageIds.includes(p.id)));
     if (idlePages.length === 0) return;
 
-    setState(prev => ({ ...prev, globalStatus: 'extracting' }));
-    
-    // Parallel processing for all pending pages
-    await Promise.all(idlePages.map(page => processPage(page)));
+    // Every page gets its controller up front so queued pages can be cancelled before they start
+    const controllers = new Map<string, AbortController>(idlePages.map(p => [p.id, new AbortController()]));
+    controllers.forEach((controller, id) => controllersRef.current.set(id, controller));
+    const batch = new AbortController();
+    batch.signal.addEventListener('abort', () => controllers.forEach(c => c.abort()));
+    batchControllerRef.current = batch;
+
+    setState(prev => ({
+      ...prev,
+      globalStatus: 'extracting',
+      pages: prev.pages.map(p => controllers.has(p.id) ? { ...p, status: 'queued' } : p)
+    }));
+    setBatchProgress({ total: idlePages.length, done: 0, failed: 0, cancelled: 0, startedAt: Date.now() });
+
+    await runWithConcurrency<Page>(idlePages, async page => {
+      const outcome = await processPage(page, controllers.get(page.id));
+      const field = outcome === 'complete' ? 'done' : outcome === 'error' ? 'failed' : 'cancelled';
+      setBatchProgress(prev => prev && { ...prev, [field]: prev[field] + 1 });
+    }, BATCH_CONCURRENCY);
+
+    batchControllerRef.current = null;
+    setBatchProgress(null);
     
     // Run consistency check and normalization after batch completes
     setState(prev => ({ 
       ...prev, 
-      pages: checkConsistency(prev.pages),
+      pages: checkConsistency(prev.pages, mergeDocuments),
       globalStatus: 'idle' 
     }));
-  }, [state.pages, processPage]);
+  }, [state.pages, processPage, mergeDocuments]);
+
+  /**
+   * Re-renders pages from their original image with the given filters, headlessly in the image
+   * worker. Pages keep their own corners and skew; pages never pre-processed get them detected.
+   * Extracted pages are skipped, since a new image would no longer match their cell locations.
+   * A new run cancels the one still going.
+   */
+  const applyFiltersToPages = async (filters: PresetSettings, pageIds: string[]): Promise<FilterRunResult> => {
+    const targets = state.pages.filter(p => pageIds.includes(p.id));
+    const pending = targets.filter(p => p.status === 'idle' || p.status === 'error');
+    const runId = Date.now();
+    filterRunRef.current?.abort();
+    const controller = new AbortController();
+    filterRunRef.current = controller;
+    let applied = 0;
+    let failed = 0;
+    await processImages(
+      pending.map(p => ({
+        id: p.id,
+        image: p.originalImage,
+        settings: { ...(p.processingSettings ?? DEFAULT_SETTINGS), ...presetFilters(filters) },
+        autoGeometry: !p.processingSettings,
+      })),
+      {
+        signal: controller.signal,
+        // The whole run is one undo step
+        onResult: (id, processedImage, processingSettings) => {
+          applied++;
+          setState(recordEdit(
+            `Apply filters to ${pending.length} page${pending.length === 1 ? '' : 's'}`,
+            prev => ({
+              ...prev,
+              pages: prev.pages.map(p => p.id === id ? { ...p, processedImage, processingSettings } : p)
+            }),
+            `filters:${runId}`
+          ));
+        },
+        onError: (id, error) => {
+          failed++;
+          console.error(`Failed to apply filters to page ${id}:`, error);
+        },
+      }
+    );
+    if (filterRunRef.current === controller) filterRunRef.current = null;
+    return { applied, failed, skipped: targets.length - pending.length, cancelled: controller.signal.aborted };
+  };
+
+  const cancelFilterRun = () => {
+    filterRunRef.current?.abort();
+  };
 
-  const handlePageUpdate = (pageId: string, newImage: string) => {
-    setState(prev => {
-      const updatedPages = prev.pages.map(p => p.id === pageId ? { ...p, processedImage: newImage } : p);
+  const cancelPage = (pageId: string) => {
+    controllersRef.current.get(pageId)?.abort();
+  };
+
+  const cancelBatch = () => {
+    batchControllerRef.current?.abort();
+  };
+
+  const togglePageChecked = (pageId: string) => {
+    setCheckedPageIds(prev => prev.includes(pageId) ? prev.filter(id => id !== pageId) : [...prev, pageId]);
+  };
+
+  const applyPresetToChecked = async (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+    setFilterNote({ text: `Applying ${preset.name}…`, isRunning: true });
+    const result = await applyFiltersToPages(preset.settings, checkedPageIds);
+    setFilterNote({ text: describeFilterRun(result), isError: result.failed > 0 });
+  };
+
+  const handlePageUpdate = (pageId: string, newImage: string, processingSettings: ImageProcessingSettings) => {
+    const page = state.pages.find(p => p.id === pageId);
+    setState(recordEdit(`Pre-process ${page?.name ?? 'page'}`, prev => {
+      const updatedPages = prev.pages.map(p => p.id === pageId ? { ...p, processedImage: newImage, processingSettings } : p);
       return { ...prev, pages: updatedPages };
-    });
+    }));
     
-    const page = state.pages.find(p => p.id === pageId);
     if (page) {
-      processPage({ ...page, processedImage: newImage });
+      processPage({ ...page, processedImage: newImage, processingSettings });
     }
   };
 
-  const handleResetPage = (pageId: string) => {
-    setState(prev => ({
+  const pageName = (pageId: string) => state.pages.find(p => p.id === pageId)?.name ?? 'page';
+
+  const describePages = (pageIds: string[]) => pageIds.length === 1 ? pageName(pageIds[0]) : `${pageIds.length} pages`;
+
+  const handleResetPages = (pageIds: string[]) => {
+    pageIds.forEach(cancelPage);
+    setState(recordEdit(`Reset ${describePages(pageIds)}`, prev => ({
       ...prev,
-      pages: prev.pages.map(p => p.id === pageId ? { ...p, extractedData: null, status: 'idle', consistencyWarning: undefined } : p)
-    }));
+      pages: prev.pages.map(p => pageIds.includes(p.id) ? { ...p, extractedData: null, editedCells: [], cellProvenance: undefined, extractionWarnings: undefined, extractionMethod: undefined, extractionCost: undefined, status: 'idle', consistencyWarning: undefined } : p)
+    })));
+  };
+
+  const handleDeletePages = (pageIds: string[]) => {
+    pageIds.forEach(cancelPage);
+    setState(recordEdit(`Delete ${describePages(pageIds)}`, prev => ({
+      ...prev,
+      pages: prev.pages.filter(p => !pageIds.includes(p.id)),
+      selectedPageId: prev.selectedPageId && pageIds.includes(prev.selectedPageId) ? null : prev.selectedPageId
+    })));
+    setCheckedPageIds(prev => prev.filter(id => !pageIds.includes(id)));
+  };
+
+  const handleDuplicatePages = (pageIds: string[]) => {
+    setState(recordEdit(`Duplicate ${describePages(pageIds)}`, prev => ({
+      ...prev,
+      pages: duplicatePages(prev.pages, pageIds).pages
+    })));
+  };
+
+  const handleMergeFiles = (pageIds: string[]) => {
+    setState(recordEdit(`Merge ${pageIds.length} pages into one file`, prev => ({ ...prev, pages: mergeIntoOneFile(prev.pages, pageIds) })));
+  };
+
+  const handleSplitFile = (pageIds: string[]) => {
+    setState(recordEdit(`Split ${describePages(pageIds)} into a new file`, prev => ({ ...prev, pages: splitIntoNewFile(prev.pages, pageIds) })));
+  };
+
+  // Dragging a ticked page moves every ticked page with it
+  const handlePageDrop = (targetId: string, position: 'before' | 'after') => {
+    if (!draggedPageId) return;
+    const moving = checkedPageIds.includes(draggedPageId) ? checkedPageIds : [draggedPageId];
+    setState(recordEdit(`Move ${describePages(moving)}`, prev => ({ ...prev, pages: movePages(prev.pages, moving, targetId, position) })));
+    setDraggedPageId(null);
+    setDropTarget(null);
+  };
+
+  // Click opens a page; Ctrl/Cmd-click ticks it, Shift-click ticks the range from the last click
+  const handlePageClick = (e: React.MouseEvent, pageId: string) => {
+    if (e.shiftKey && selectionAnchorRef.current) {
+      // Groups list their pages in list order; pages of collapsed groups are hidden and left out
+      const shown = groupByFile ? state.pages.filter(p => !collapsedFiles.includes(getSourceFile(p))) : state.pages;
+      setCheckedPageIds(pageIdRange(shown, selectionAnchorRef.current, pageId));
+      return;
+    }
+    selectionAnchorRef.current = pageId;
+    if (e.ctrlKey || e.metaKey) {
+      togglePageChecked(pageId);
+      return;
+    }
+    setState(s => ({ ...s, selectedPageId: pageId }));
+  };
+
+  const toggleFileCollapsed = (sourceFile: string) => {
+    setCollapsedFiles(prev => prev.includes(sourceFile) ? prev.filter(f => f !== sourceFile) : [...prev, sourceFile]);
+  };
+
+  // Typing into one cell is a single undo step
+  const handleDataChange = (pageId: string, extractedData: ExtractedDataRow[], editedCells: string[], cell?: string) => {
+    const label = cell ? `Edit cell ${parseCellKey(cell).column} (row ${parseCellKey(cell).rowIndex + 1})` : 'Normalize column';
+    setState(recordEdit(label, prev => ({
+      ...prev,
+      pages: prev.pages.map(p => p.id === pageId ? { ...p, extractedData, editedCells } : p)
+    }), cell && `cell:${pageId}:${cell}`));
+  };
+
+  const handleColumnTypesChange = (pageId: string, columnTypes: Record<string, ColumnType>) => {
+    setState(recordEdit('Change column type', prev => ({
+      ...prev,
+      pages: prev.pages.map(p => p.id === pageId ? { ...p, columnTypes } : p)
+    })));
   };
 
   // UI Components
   const selectedPage = state.pages.find(p => p.id === state.selectedPageId);
-  const isGlobalProcessing = state.globalStatus === 'extracting' || state.pages.some(p => p.status === 'extracting');
+  const isGlobalProcessing = state.globalStatus === 'extracting' || state.pages.some(p => p.status === 'extracting' || p.status === 'queued');
+  // Undo waits for running extractions, whose results would otherwise land on restored pages
+  const canUndo = !isGlobalProcessing && state.history.past.length > 0;
+  const canRedo = !isGlobalProcessing && state.history.future.length > 0;
+  const handleUndo = () => { if (canUndo) setState(undoEdit); };
+  const handleRedo = () => { if (canRedo) setState(redoEdit); };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+  const selectedTable = useMemo(
+    () => mergeDocuments && selectedPage ? stitchDocuments(state.pages).find(t => t.pageIds.includes(selectedPage.id)) : undefined,
+    [mergeDocuments, selectedPage, state.pages]
+  );
+  const selectedBox = selectedCell ? selectedPage?.cellProvenance?.[selectedCell]?.box : undefined;
+  // Hover previews a row on the image; otherwise the selected row stays highlighted
+  const highlightedRow = hoveredRow ?? selectedRow;
+  const highlightedRowBox = highlightedRow !== null ? rowBoundingBox(selectedPage?.cellProvenance, highlightedRow) : null;
+  const mergedTable = showMergedTable && selectedTable && selectedTable.pageIds.length > 1 ? selectedTable : undefined;
+  const resultsTable = selectedPage?.extractedData && (
+    <div className="h-full app-card rounded-xl border app-border overflow-hidden shadow-lg">
+      {mergedTable ? (
+        <ResultsTable
+           data={mergedTable.rows}
+           editedCells={mergedTable.editedCells}
+           columnTypes={mergedTable.columnTypes}
+           readOnly
+           title={mergedTable.sourceFile}
+        />
+      ) : (
+        <ResultsTable 
+           data={selectedPage.extractedData} 
+           editedCells={selectedPage.editedCells}
+           provenance={selectedPage.cellProvenance}
+           selectedCell={selectedCell}
+           selectedRow={selectedRow}
+           columnTypes={selectedPage.columnTypes}
+           onChange={(data, edited, cell) => handleDataChange(selectedPage.id, data, edited, cell)}
+           onColumnTypesChange={(types) => handleColumnTypesChange(selectedPage.id, types)}
+           onCellSelect={setSelectedCell}
+           onRowSelect={setSelectedRow}
+           onRowHover={setHoveredRow}
+           onReset={() => handleResetPages([selectedPage.id])} 
+        />
+      )}
+    </div>
+  );
+  // Batch actions in the header work on the ticked pages, or on every page when none are ticked
+  const batchPageIds = checkedPageIds.length > 0 ? checkedPageIds : state.pages.map(p => p.id);
+  const pendingPageIds = state.pages.filter(p => (p.status === 'idle' || p.status === 'error') && batchPageIds.includes(p.id)).map(p => p.id);
+  // The batch selector reflects the pending pages' template when they all agree
+  const pendingTemplateIds = new Set<string | null>(state.pages.filter(p => pendingPageIds.includes(p.id)).map(p => p.templateId ?? null));
+  const batchTemplateId = pendingTemplateIds.size === 1 ? Array.from(pendingTemplateIds)[0] : null;
 
   return (
     <div className="flex flex-col h-screen overflow-hidden bg-[var(--bg-main)]">
@@ -316,6 +877,31 @@ const App: React.FC = () => {
              <Sparkles className="w-5 h-5" />
            </div>
            <h1 className="font-bold text-lg app-text tracking-tight hidden sm:block">Smart Document Digitizer</h1>
+           <div className="border-l app-border pl-3 ml-1">
+             <ProjectMenu
+               projectId={state.projectId}
+               projectName={state.projectName}
+               saveStatus={saveStatus}
+               saveError={saveError}
+               projectError={projectError}
+               reclaimableProjects={reclaimableProjects}
+               projects={projects}
+               onRename={(name) => setState(s => ({ ...s, projectName: name }))}
+               onOpen={handleOpenProject}
+               onNew={handleNewProject}
+               onDelete={handleDeleteProject}
+               onMenuOpen={refreshProjects}
+             />
+           </div>
+           <HistoryMenu
+             history={state.history}
+             canUndo={canUndo}
+             canRedo={canRedo}
+             onUndo={handleUndo}
+             onRedo={handleRedo}
+             isLocked={isGlobalProcessing}
+             onJump={(entryId) => { if (!isGlobalProcessing) setState(s => jumpToEdit(s, entryId)); }}
+           />
         </div>
 
         <div className="flex items-center gap-4">
@@ -326,39 +912,96 @@ const App: React.FC = () => {
                 <div className="flex items-center gap-2">
                   <label className="flex items-center justify-center w-9 h-9 rounded-full bg-[var(--bg-main)] hover:bg-black/5 dark:hover:bg-white/10 cursor-pointer text-[var(--accent)] border app-border transition-all" title="Add more files">
                     <Plus className="w-5 h-5" />
-                    <input type="file" className="hidden" multiple accept="image/*,.pdf" onChange={handleFileInput} />
+                    <input type="file" className="hidden" multiple accept={FILE_INPUT_ACCEPT} onChange={handleFileInput} />
                   </label>
-                  
-                  <button 
-                    onClick={processAll}
-                    disabled={isGlobalProcessing}
-                    className="flex items-center gap-2 px-4 py-1.5 app-accent text-white rounded-full text-sm font-medium shadow-md hover:opacity-90 transition-all hover:scale-105 disabled:opacity-50 disabled:scale-100 disabled:cursor-not-allowed"
-                    title="Batch Process Pending Pages"
+                  <PdfImportMenu options={pdfImportOptions} onChange={setPdfImportOptions} align="left" />
+
+                  <TemplateSelect
+                    templates={templates}
+                    value={batchTemplateId}
+                    onChange={(id) => setPageTemplate(pendingPageIds, id)}
+                    title={checkedPageIds.length > 0 ? 'Template for the selected pending pages' : 'Template for all pending pages'}
+                  />
+                  <button
+                    onClick={() => setCaptureProvenance(v => !v)}
+                    className={`p-1.5 rounded-full transition-colors ${captureProvenance ? 'text-[var(--accent)] bg-black/5 dark:bg-white/10' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                    title={captureProvenance ? 'Capturing confidence and cell locations' : 'Capture confidence and cell locations'}
                   >
-                    {isGlobalProcessing ? (
-                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                    ) : (
-                      <Play className="w-3.5 h-3.5 fill-current" />
-                    )}
-                    <span className="hidden md:inline">{isGlobalProcessing ? 'Processing...' : 'Batch Process'}</span>
+                    <ScanSearch className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setStripCount(n => STRIP_COUNT_CHOICES[(STRIP_COUNT_CHOICES.indexOf(n) + 1) % STRIP_COUNT_CHOICES.length])}
+                    className={`flex items-center gap-0.5 p-1.5 rounded-full transition-colors ${stripCount > 1 ? 'text-[var(--accent)] bg-black/5 dark:bg-white/10' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                    title={stripCount > 1 ? `Extracting each page as ${stripCount} overlapping strips (click to change)` : 'Extract dense pages as overlapping strips'}
+                  >
+                    <Rows3 className="w-4 h-4" />
+                    {stripCount > 1 && <span className="text-[10px] font-semibold">{stripCount}</span>}
+                  </button>
+                  <button
+                    onClick={() => setMergeDocuments(v => !v)}
+                    className={`p-1.5 rounded-full transition-colors ${mergeDocuments ? 'text-[var(--accent)] bg-black/5 dark:bg-white/10' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                    title={mergeDocuments ? 'Merging pages of each file into one table' : 'Merge pages of each file into one table'}
+                  >
+                    <Combine className="w-4 h-4" />
                   </button>
+                  <button
+                    onClick={() => setIsTemplateManagerOpen(true)}
+                    className="p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted transition-colors"
+                    title="Manage Templates"
+                  >
+                    <LayoutTemplate className="w-4 h-4" />
+                  </button>
+                  
+                  {batchProgress ? (
+                    <BatchProgressBar progress={batchProgress} onCancel={cancelBatch} />
+                  ) : (
+                    <button 
+                      onClick={() => processPages(pendingPageIds)}
+                      disabled={isGlobalProcessing || pendingPageIds.length === 0}
+                      className="flex items-center gap-2 px-4 py-1.5 app-accent text-white rounded-full text-sm font-medium shadow-md hover:opacity-90 transition-all hover:scale-105 disabled:opacity-50 disabled:scale-100 disabled:cursor-not-allowed"
+                      title={checkedPageIds.length > 0 ? 'Batch Process Selected Pages' : 'Batch Process Pending Pages'}
+                    >
+                      {isGlobalProcessing ? (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      ) : (
+                        <Play className="w-3.5 h-3.5 fill-current" />
+                      )}
+                      <span className="hidden md:inline">{isGlobalProcessing ? 'Processing...' : checkedPageIds.length > 0 ? `Process Selected (${pendingPageIds.length})` : 'Batch Process'}</span>
+                    </button>
+                  )}
 
                   <div className="flex items-center bg-[var(--bg-main)] rounded-full border app-border p-0.5 ml-2">
                      <button 
-                      onClick={() => downloadExcelMultiSheet(state.pages)}
+                      onClick={() => mergeDocuments ? downloadExcelDocuments(stitchDocuments(state.pages), state.pages, false) : downloadExcelMultiSheet(state.pages)}
                       className="p-1.5 hover:bg-black/5 dark:hover:bg-white/10 rounded-full text-green-600 transition-colors"
-                      title="Export Excel (Multi-sheet)"
+                      title={mergeDocuments ? 'Export Excel (Sheet per Document)' : 'Export Excel (Multi-sheet)'}
                      >
                        <FileSpreadsheet className="w-4 h-4" />
                      </button>
                      <div className="w-px h-4 bg-[var(--border)] mx-0.5"></div>
                      <button 
-                      onClick={() => downloadExcelMasterSheet(state.pages)}
+                      onClick={() => mergeDocuments ? downloadExcelDocuments(stitchDocuments(state.pages), state.pages, true) : downloadExcelMasterSheet(state.pages)}
                       className="p-1.5 hover:bg-black/5 dark:hover:bg-white/10 rounded-full text-blue-600 transition-colors"
                       title="Export Excel (Master Sheet)"
                      >
                        <Layout className="w-4 h-4" />
                      </button>
+                     <div className="w-px h-4 bg-[var(--border)] mx-0.5"></div>
+                     <button 
+                      onClick={() => setIsExportOpen(true)}
+                      className="p-1.5 hover:bg-black/5 dark:hover:bg-white/10 rounded-full app-text-muted transition-colors"
+                      title="Export JSON, SQL, Markdown or HTML"
+                     >
+                       <FileOutput className="w-4 h-4" />
+                     </button>
+                     <div className="w-px h-4 bg-[var(--border)] mx-0.5"></div>
+                     <button 
+                      onClick={() => setIsReconcileOpen(true)}
+                      className="p-1.5 hover:bg-black/5 dark:hover:bg-white/10 rounded-full app-text-muted transition-colors"
+                      title="Reconcile with a spreadsheet or CSV"
+                     >
+                       <GitCompareArrows className="w-4 h-4" />
+                     </button>
                   </div>
                 </div>
              </div>
@@ -414,45 +1057,184 @@ const App: React.FC = () => {
                   type="file" 
                   className="hidden" 
                   multiple 
-                  accept="image/*,.pdf" 
+                  accept={FILE_INPUT_ACCEPT} 
                   onChange={handleFileInput} 
                 />
              </label>
+             <div className="mt-4 flex items-center gap-1 text-sm app-text-muted">
+                PDF import options
+                <PdfImportMenu options={pdfImportOptions} onChange={setPdfImportOptions} align="left" />
+             </div>
            </div>
         ) : (
           <div className="flex w-full h-full">
             {/* Page List - Left Panel */}
             <div className="w-64 border-r app-border app-card overflow-y-auto flex-shrink-0">
               <div className="p-3 text-xs font-semibold app-text-muted uppercase tracking-wider sticky top-0 bg-[var(--bg-card)] z-10 border-b app-border backdrop-blur-sm bg-opacity-90">
-                Pages ({state.pages.length})
-              </div>
-              {state.pages.map((page, idx) => (
-                <div 
-                  key={page.id}
-                  onClick={() => setState(s => ({ ...s, selectedPageId: page.id }))}
-                  className={`p-3 border-b app-border cursor-pointer hover:bg-black/5 dark:hover:bg-white/10 transition-colors group ${
-                    state.selectedPageId === page.id ? 'bg-black/5 dark:bg-white/10 border-l-4 border-l-[var(--accent)]' : 'border-l-4 border-l-transparent'
-                  }`}
-                >
-                  <div className="flex justify-between items-start mb-2">
-                    <span className="text-sm font-medium app-text truncate w-32" title={page.name}>{page.name}</span>
-                    <StatusIcon status={page.status} warning={page.consistencyWarning} />
-                  </div>
-                  <div className="aspect-[3/4] bg-[var(--bg-main)] rounded-md overflow-hidden relative border app-border shadow-sm group-hover:shadow-md transition-all">
-                     <img src={page.processedImage || page.originalImage} className="w-full h-full object-cover" />
-                     {/* Overlay for actions if needed */}
-                  </div>
-                  {page.consistencyWarning && (
-                    <div className="mt-2 text-[10px] leading-tight text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 p-1.5 rounded border border-amber-200 dark:border-amber-800">
-                      {page.consistencyWarning}
-                    </div>
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-1">
+                    Pages ({state.pages.length})
+                    <button
+                      onClick={() => setGroupByFile(v => !v)}
+                      className={`p-1 rounded-md transition-colors ${groupByFile ? 'text-[var(--accent)]' : 'hover:bg-black/5 dark:hover:bg-white/10'}`}
+                      title={groupByFile ? 'Grouped by source file' : 'Group by source file'}
+                    >
+                      <Folders className="w-3.5 h-3.5" />
+                    </button>
+                  </span>
+                  {checkedPageIds.length > 0 && (
+                    <button onClick={() => setCheckedPageIds([])} className="normal-case font-medium hover:text-[var(--accent)]" title="Clear selection">
+                      {checkedPageIds.length} selected
+                    </button>
                   )}
                 </div>
-              ))}
+                {checkedPageIds.length > 0 && (
+                  <>
+                    <div className="mt-2 flex items-center gap-1 normal-case tracking-normal">
+                      <button onClick={() => processPages(checkedPageIds)} disabled={isGlobalProcessing} className="p-1.5 rounded-md hover:bg-black/5 dark:hover:bg-white/10 text-[var(--accent)] disabled:opacity-40" title="Extract selected pages">
+                        <Play className="w-3.5 h-3.5 fill-current" />
+                      </button>
+                      <button onClick={() => handleResetPages(checkedPageIds)} className="p-1.5 rounded-md hover:bg-black/5 dark:hover:bg-white/10" title="Reset selected pages">
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDuplicatePages(checkedPageIds)} className="p-1.5 rounded-md hover:bg-black/5 dark:hover:bg-white/10" title="Duplicate selected pages">
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleMergeFiles(checkedPageIds)} disabled={checkedPageIds.length < 2} className="p-1.5 rounded-md hover:bg-black/5 dark:hover:bg-white/10 disabled:opacity-40" title="Merge selected pages into one file">
+                        <Merge className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleSplitFile(checkedPageIds)} className="p-1.5 rounded-md hover:bg-black/5 dark:hover:bg-white/10" title="Split selected pages into a new file">
+                        <Split className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDeletePages(checkedPageIds)} className="ml-auto p-1.5 rounded-md text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Delete selected pages">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <select
+                      value=""
+                      onChange={(e) => applyPresetToChecked(e.target.value)}
+                      className="mt-2 w-full normal-case tracking-normal font-normal text-xs px-2 py-1 rounded border app-border bg-[var(--bg-main)] app-text focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+                      title="Apply a pre-processing preset to the selected pages"
+                    >
+                      <option value="" disabled>Apply preset…</option>
+                      {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    {filterNote && (
+                      <p className={`mt-1 normal-case tracking-normal font-normal text-[11px] leading-tight ${filterNote.isError ? 'text-red-500' : ''}`}>
+                        {filterNote.text}
+                        {filterNote.isRunning && (
+                          <button onClick={cancelFilterRun} className="ml-1 font-medium hover:text-[var(--accent)]">Cancel</button>
+                        )}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+              {(groupByFile ? groupBySourceFile(state.pages) : [{ sourceFile: '', pages: state.pages }]).map((group, groupIndex) => {
+                const collapsed = groupByFile && collapsedFiles.includes(group.sourceFile);
+                const groupIds = group.pages.map(p => p.id);
+                const allChecked = groupIds.every(id => checkedPageIds.includes(id));
+                return (
+                  <div key={`${group.sourceFile}-${groupIndex}`}>
+                    {groupByFile && (
+                      <div className="flex items-center gap-2 px-3 py-1.5 border-b app-border bg-[var(--bg-main)] text-xs app-text-muted">
+                        <input
+                          type="checkbox"
+                          checked={allChecked}
+                          onChange={() => setCheckedPageIds(prev => allChecked ? prev.filter(id => !groupIds.includes(id)) : [...prev.filter(id => !groupIds.includes(id)), ...groupIds])}
+                          className="accent-[var(--accent)] shrink-0"
+                          title="Select all pages of this file"
+                        />
+                        <button onClick={() => toggleFileCollapsed(group.sourceFile)} className="flex-1 flex items-center gap-1 min-w-0 text-left hover:text-[var(--accent)]">
+                          {collapsed ? <ChevronRight className="w-3.5 h-3.5 shrink-0" /> : <ChevronDown className="w-3.5 h-3.5 shrink-0" />}
+                          <span className="truncate font-medium" title={group.sourceFile}>{group.sourceFile}</span>
+                          <span className="shrink-0 opacity-70">({group.pages.length})</span>
+                        </button>
+                      </div>
+                    )}
+                    {!collapsed && group.pages.map(page => (
+                      <div 
+                        key={page.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          e.dataTransfer.setData('text/plain', page.id);
+                          setDraggedPageId(page.id);
+                        }}
+                        onDragOver={(e) => {
+                          if (!draggedPageId) return;
+                          e.preventDefault();
+                          const { top, height } = e.currentTarget.getBoundingClientRect();
+                          setDropTarget({ pageId: page.id, position: e.clientY < top + height / 2 ? 'before' : 'after' });
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          if (dropTarget) handlePageDrop(dropTarget.pageId, dropTarget.position);
+                        }}
+                        onDragEnd={() => { setDraggedPageId(null); setDropTarget(null); }}
+                        onClick={(e) => handlePageClick(e, page.id)}
+                        className={`p-3 border-b app-border cursor-pointer hover:bg-black/5 dark:hover:bg-white/10 transition-colors group ${
+                          state.selectedPageId === page.id ? 'bg-black/5 dark:bg-white/10 border-l-4 border-l-[var(--accent)]' : 'border-l-4 border-l-transparent'
+                        } ${checkedPageIds.includes(page.id) ? 'ring-1 ring-inset ring-[var(--accent)]' : ''} ${draggedPageId === page.id ? 'opacity-40' : ''} ${
+                          dropTarget?.pageId === page.id ? (dropTarget.position === 'before' ? 'border-t-2 border-t-[var(--accent)]' : 'border-b-2 border-b-[var(--accent)]') : ''
+                        }`}
+                      >
+                        <div className="flex justify-between items-start mb-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <GripVertical className="w-3.5 h-3.5 app-text-muted opacity-0 group-hover:opacity-60 shrink-0 cursor-grab -ml-1" />
+                            <input
+                              type="checkbox"
+                              checked={checkedPageIds.includes(page.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={() => { selectionAnchorRef.current = page.id; togglePageChecked(page.id); }}
+                              className="accent-[var(--accent)] shrink-0"
+                              title="Select page (Ctrl-click or Shift-click the page to select several)"
+                            />
+                            <span className="text-sm font-medium app-text truncate w-24" title={page.name}>{page.name}</span>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            {(page.status === 'queued' || page.status === 'extracting') && (
+                              <button
+                                onClick={(e) => { e.stopPropagation(); cancelPage(page.id); }}
+                                className="p-0.5 rounded-full text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 opacity-0 group-hover:opacity-100 transition-all"
+                                title="Cancel Extraction"
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleDuplicatePages([page.id]); }}
+                              className="p-0.5 rounded-full app-text-muted hover:text-[var(--accent)] opacity-0 group-hover:opacity-100 transition-all"
+                              title="Duplicate Page"
+                            >
+                              <Copy className="w-3.5 h-3.5" />
+                            </button>
+                            <StatusIcon status={page.status} warning={page.consistencyWarning} />
+                          </div>
+                        </div>
+                        <div className="aspect-[3/4] bg-[var(--bg-main)] rounded-md overflow-hidden relative border app-border shadow-sm group-hover:shadow-md transition-all">
+                           <img src={page.processedImage || page.originalImage} className="w-full h-full object-cover" draggable={false} />
+                           {/* Overlay for actions if needed */}
+                        </div>
+                        {page.consistencyWarning && (
+                          <div className="mt-2 text-[10px] leading-tight text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 p-1.5 rounded border border-amber-200 dark:border-amber-800">
+                            {page.consistencyWarning}
+                          </div>
+                        )}
+                        {page.status === 'error' && page.errorMessage && (
+                          <div className="mt-2 text-[10px] leading-tight text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-1.5 rounded border border-red-200 dark:border-red-800 line-clamp-3" title={page.errorMessage}>
+                            {page.errorMessage}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
               <div className="p-4 flex justify-center">
                  <label className="flex items-center gap-2 text-xs font-medium app-text-muted hover:text-[var(--accent)] cursor-pointer transition-colors">
                     <Plus className="w-4 h-4" /> Add more pages
-                    <input type="file" className="hidden" multiple accept="image/*,.pdf" onChange={handleFileInput} />
+                    <input type="file" className="hidden" multiple accept={FILE_INPUT_ACCEPT} onChange={handleFileInput} />
                  </label>
               </div>
             </div>
@@ -468,24 +1250,44 @@ const App: React.FC = () => {
                         </span>
                         <h2 className="font-semibold app-text truncate max-w-md">{selectedPage.name}</h2>
                      </div>
-                     <button 
-                       onClick={() => setState(s => ({ ...s, pages: s.pages.filter(p => p.id !== selectedPage.id), selectedPageId: null }))}
-                       className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
-                       title="Delete Page"
-                     >
-                       <Trash2 className="w-4 h-4" />
-                     </button>
+                     <div className="flex items-center gap-2">
+                        <TemplateSelect
+                          templates={templates}
+                          value={selectedPage.templateId ?? null}
+                          onChange={(id) => setPageTemplate([selectedPage.id], id)}
+                          title="Extraction template for this page"
+                        />
+                        <button 
+                          onClick={() => handleDeletePages([selectedPage.id])}
+                          className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
+                          title="Delete Page"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                     </div>
                   </header>
                   
                   <div className="flex-1 overflow-hidden p-4 md:p-6 flex flex-col">
-                    {selectedPage.status === 'extracting' ? (
+                    {selectedPage.status === 'extracting' || selectedPage.status === 'queued' ? (
                        <div className="h-full flex flex-col items-center justify-center">
                           <div className="relative">
                             <div className="absolute inset-0 bg-[var(--accent)] blur-xl opacity-20 rounded-full animate-pulse"></div>
                             <Loader2 className="w-12 h-12 animate-spin text-[var(--accent)] mb-4 relative z-10" />
                           </div>
-                          <h3 className="text-lg font-medium app-text mb-2">Digitizing Document</h3>
-                          <p className="app-text-muted">Gemini is extracting tables and handwriting...</p>
+                          <h3 className="text-lg font-medium app-text mb-2">
+                            {selectedPage.status === 'queued' ? 'Waiting in Queue' : 'Digitizing Document'}
+                          </h3>
+                          <p className="app-text-muted">
+                            {selectedPage.status === 'queued'
+                              ? 'This page will be extracted as soon as a slot frees up.'
+                              : `${getActiveProvider().label} is extracting tables and handwriting...`}
+                          </p>
+                          <button
+                            onClick={() => cancelPage(selectedPage.id)}
+                            className="mt-6 px-4 py-1.5 text-sm font-medium text-red-500 border border-red-200 dark:border-red-800 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                          >
+                            Cancel
+                          </button>
                        </div>
                     ) : selectedPage.extractedData ? (
                        <div className="h-full flex flex-col overflow-hidden">
@@ -497,26 +1299,108 @@ const App: React.FC = () => {
                                 {selectedPage.consistencyWarning}
                               </div>
                             )}
+                            {selectedPage.extractionWarnings && selectedPage.extractionWarnings.length > 0 && (
+                              <div
+                                className="flex items-center gap-2 text-xs app-text-muted px-3 py-1 rounded-full border app-border ml-2"
+                                title={selectedPage.extractionWarnings.join('\n')}
+                              >
+                                <AlertCircle className="w-3.5 h-3.5" />
+                                {selectedPage.extractionWarnings.length} output repair{selectedPage.extractionWarnings.length === 1 ? '' : 's'}
+                              </div>
+                            )}
+                            {selectedPage.extractionMethod === 'text-layer' && (
+                              <div
+                                className="flex items-center gap-2 text-xs app-text-muted px-3 py-1 rounded-full border app-border ml-2"
+                                title="Read from the text embedded in the PDF; no model was called for this page"
+                              >
+                                <FileText className="w-3.5 h-3.5" />
+                                From PDF text
+                              </div>
+                            )}
+                            {selectedPage.extractionCost && (
+                              <div
+                                className="flex items-center gap-2 text-xs app-text-muted px-3 py-1 rounded-full border app-border ml-2"
+                                title={[
+                                  (selectedPage.extractionCost.requests ?? 1) > 1
+                                    ? `Sent as ${selectedPage.extractionCost.requests} strips: ${formatBytes(selectedPage.extractionCost.imageBytes)} in total (strip images ${formatBytes(selectedPage.extractionCost.sourceBytes)})`
+                                    : `Image sent: ${selectedPage.extractionCost.width}×${selectedPage.extractionCost.height} px, ${formatBytes(selectedPage.extractionCost.imageBytes)} (page image ${formatBytes(selectedPage.extractionCost.sourceBytes)})`,
+                                  selectedPage.extractionCost.usage
+                                    ? `Tokens: ${selectedPage.extractionCost.usage.inputTokens.toLocaleString()} in, ${selectedPage.extractionCost.usage.outputTokens.toLocaleString()} out`
+                                    : 'The provider did not report token usage',
+                                ].join('\n')}
+                              >
+                                <Coins className="w-3.5 h-3.5" />
+                                {formatBytes(selectedPage.extractionCost.imageBytes)}
+                                {selectedPage.extractionCost.usage && ` · ${(selectedPage.extractionCost.usage.inputTokens + selectedPage.extractionCost.usage.outputTokens).toLocaleString()} tokens`}
+                              </div>
+                            )}
+                            {selectedTable && selectedTable.pageIds.length > 1 && (
+                              <button
+                                onClick={() => setShowMergedTable(v => !v)}
+                                className={`flex items-center gap-2 text-xs px-3 py-1 rounded-full border app-border ml-2 transition-colors ${
+                                  mergedTable ? 'text-[var(--accent)] bg-black/5 dark:bg-white/10' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'
+                                }`}
+                                title={`${selectedTable.droppedHeaderRows} repeated header row(s) dropped, ${selectedTable.joinedRows} split row(s) joined\n${mergedTable ? 'Show this page only' : 'Show the merged table'}`}
+                              >
+                                <Combine className="w-3.5 h-3.5" />
+                                Part {selectedTable.pageIds.indexOf(selectedPage.id) + 1} of {selectedTable.pageIds.length} · {selectedTable.rows.length} rows merged
+                              </button>
+                            )}
+                            <button
+                               onClick={() => setIsSplitView(v => !v)}
+                               className="text-xs font-medium app-text-muted hover:text-[var(--accent)] flex items-center gap-1 transition-colors ml-auto mr-4"
+                               title={isSplitView ? 'Show the table only' : 'Show the page image next to the table'}
+                            >
+                              <Columns2 className="w-3 h-3" /> {isSplitView ? 'Table Only' : 'Side by Side'}
+                            </button>
                             <button 
-                               onClick={() => handleResetPage(selectedPage.id)}
-                               className="text-xs font-medium app-text-muted hover:text-[var(--accent)] flex items-center gap-1 transition-colors ml-auto"
+                               onClick={() => handleResetPages([selectedPage.id])}
+                               className="text-xs font-medium app-text-muted hover:text-[var(--accent)] flex items-center gap-1 transition-colors"
                             >
                               <ChevronRight className="w-3 h-3 rotate-180" /> Re-process Image
                             </button>
                           </div>
-                          <div className="flex-1 app-card rounded-xl border app-border overflow-hidden shadow-lg">
-                            <ResultsTable 
-                               data={selectedPage.extractedData} 
-                               onReset={() => handleResetPage(selectedPage.id)} 
-                            />
+                          <div className="flex-1 overflow-hidden">
+                            {isSplitView ? (
+                              <SplitPane
+                                left={
+                                  <div className="h-full mr-2 app-card rounded-xl border app-border overflow-hidden shadow-lg">
+                                    <ReviewImage
+                                      image={selectedPage.processedImage || selectedPage.originalImage}
+                                      rowBox={highlightedRowBox}
+                                      cellBox={hoveredRow === null || hoveredRow === selectedRow ? selectedBox : null}
+                                      label={selectedCell ? parseCellKey(selectedCell).column : undefined}
+                                    />
+                                  </div>
+                                }
+                                right={<div className="h-full ml-2">{resultsTable}</div>}
+                              />
+                            ) : resultsTable}
                           </div>
                        </div>
                     ) : (
                        <div className="flex-1 flex flex-col overflow-hidden">
+                          {selectedPage.status === 'error' && selectedPage.errorMessage && (
+                            <div className="mb-4 flex items-start gap-2 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-4 py-2 rounded-xl border border-red-200 dark:border-red-800 shrink-0">
+                              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                              <span>Extraction failed: {selectedPage.errorMessage}</span>
+                            </div>
+                          )}
                           <ImageProcessor 
                             imageData={selectedPage.originalImage} 
-                            onProcessComplete={(img) => handlePageUpdate(selectedPage.id, img)}
+                            key={selectedPage.id}
+                            initialSettings={selectedPage.processingSettings}
+                            onProcessComplete={(img, settings) => handlePageUpdate(selectedPage.id, img, settings)}
                             onCancel={() => {}}
+                            presets={presets}
+                            onSavePreset={handleSavePreset}
+                            onDeletePreset={handleDeletePreset}
+                            checkedPageCount={checkedPageIds.filter(id => id !== selectedPage.id).length}
+                            onCancelApply={cancelFilterRun}
+                            onApplyToPages={(filters, scope) => applyFiltersToPages(
+                              filters,
+                              (scope === 'checked' ? checkedPageIds : state.pages.map(p => p.id)).filter(id => id !== selectedPage.id)
+                            )}
                           />
                        </div>
                     )}
@@ -531,17 +1415,69 @@ const App: React.FC = () => {
             </div>
           </div>
         )}
+
+        {skippedFiles.length > 0 && (
+          <ImportReport files={skippedFiles} onDismiss={() => setSkippedFiles([])} />
+        )}
       </main>
+
+      {isTemplateManagerOpen && (
+        <TemplateManager
+          templates={templates}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setIsTemplateManagerOpen(false)}
+        />
+      )}
+      {isExportOpen && (
+        <ExportDialog
+          pages={state.pages}
+          selectedPageId={state.selectedPageId}
+          checkedPageIds={checkedPageIds}
+          mergeDocuments={mergeDocuments}
+          projectName={state.projectName}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {isReconcileOpen && (
+        <ReconcileDialog
+          pages={state.pages}
+          checkedPageIds={checkedPageIds}
+          mergeDocuments={mergeDocuments}
+          projectName={state.projectName}
+          references={referenceTables}
+          onReferencesChange={setReferenceTables}
+          onClose={() => setIsReconcileOpen(false)}
+        />
+      )}
     </div>
   );
 };
 
+const TemplateSelect = ({ templates, value, onChange, title }: {
+  templates: ExtractionTemplate[];
+  value: string | null;
+  onChange: (templateId: string | null) => void;
+  title: string;
+}) => (
+  <select
+    value={value ?? ''}
+    onChange={(e) => onChange(e.target.value || null)}
+    className="max-w-[11rem] px-2 py-1 text-xs font-medium bg-[var(--bg-main)] border app-border rounded-full outline-none app-text cursor-pointer"
+    title={title}
+  >
+    <option value="">Auto-detect columns</option>
+    {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+  </select>
+);
+
 const StatusIcon = ({ status, warning }: { status: string, warning?: string }) => {
   if (warning) return <AlertTriangle className="w-4 h-4 text-amber-500" />;
   switch (status) {
     case 'complete': return <CheckCircle className="w-4 h-4 text-green-500" />;
     case 'error': return <AlertCircle className="w-4 h-4 text-red-500" />;
     case 'extracting': return <Loader2 className="w-4 h-4 animate-spin text-blue-500" />;
+    case 'queued': return <Clock className="w-4 h-4 text-slate-400" />;
     default: return <div className="w-4 h-4 rounded-full border-2 border-slate-300 dark:border-slate-600" />;
   }
 };
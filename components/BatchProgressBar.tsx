@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { BatchProgress } from '../types';
+import { Loader2, X } from 'lucide-react';
+
+interface BatchProgressBarProps {
+  progress: BatchProgress;
+  onCancel: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const BatchProgressBar: React.FC<BatchProgressBarProps> = ({ progress, onCancel }) => {
+  // Re-render every second so the ETA keeps counting down between page completions
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { total, done, failed, cancelled, startedAt } = progress;
+  const finished = done + failed;
+  const remaining = total - finished - cancelled;
+  // Average wall-clock time per finished page already reflects the concurrency
+  const eta = finished > 0 ? ((now - startedAt) / finished) * remaining : null;
+  const percent = total > 0 ? ((finished + cancelled) / total) * 100 : 0;
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-1 rounded-full border app-border bg-[var(--bg-main)] text-xs app-text">
+      <Loader2 className="w-3.5 h-3.5 animate-spin text-[var(--accent)] shrink-0" />
+      <div className="flex flex-col gap-1 min-w-[9rem]">
+        <div className="flex items-center gap-2 font-medium whitespace-nowrap">
+          <span>{finished}/{total} done</span>
+          {failed > 0 && <span className="text-red-500">{failed} failed</span>}
+          <span className="app-text-muted">{remaining} left</span>
+          {eta !== null && remaining > 0 && <span className="app-text-muted">~{formatDuration(eta)}</span>}
+        </div>
+        <div className="h-1 w-full rounded-full bg-[var(--border)] overflow-hidden">
+          <div className="h-full bg-[var(--accent)] transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      <button
+        onClick={onCancel}
+        className="p-1 rounded-full text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+        title="Cancel Batch"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export default BatchProgressBar;
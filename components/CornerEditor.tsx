@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+import { Quad } from '../types';
+
+interface CornerEditorProps {
+  corners: Quad;
+  onChange: (corners: Quad) => void;
+  style?: React.CSSProperties; // Positions the overlay exactly over the image it edits
+}
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+// Overlay with four draggable handles outlining the document; coordinates are normalized (0..1)
+const CornerEditor: React.FC<CornerEditorProps> = ({ corners, onChange, style }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const overlay = overlayRef.current;
+    if (dragging === null || !overlay) return;
+    const rect = overlay.getBoundingClientRect();
+    const next = [...corners] as Quad;
+    next[dragging] = { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+    onChange(next);
+  };
+
+  const outline = corners.map(p => `${p.x},${p.y}`).join(' ');
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute touch-none ${dragging !== null ? 'cursor-grabbing' : ''}`}
+      style={style}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragging(null)}
+    >
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+        {/* Everything outside the outline is dimmed */}
+        <path d={`M0,0 H1 V1 H0 Z M${outline.split(' ').join(' L')} Z`} fill="rgba(0,0,0,0.35)" fillRule="evenodd" />
+        <polygon points={outline} fill="none" stroke="var(--accent)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      {corners.map((p, i) => (
+        <div
+          key={i}
+          className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-[var(--accent)] shadow cursor-grab"
+          style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+          onPointerDown={(e) => {
+            e.preventDefault();
+            e.currentTarget.parentElement?.setPointerCapture(e.pointerId);
+            setDragging(i);
+          }}
+          title="Drag to adjust the corner"
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CornerEditor;
@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArchiveFormatId, ColumnMapping, ExportFormatId, ExportScope, Page, SqlDialect } from '../types';
+import { applyColumnMapping, buildExportTables, defaultColumnMapping, exportTables, getExportFormat, listExportFormats } from '../services/exportService';
+import { ARCHIVE_FORMATS, exportArchive } from '../services/archiveService';
+import { cellKey } from '../utils/tableUtils';
+import { FileOutput, X, Download, ArrowUp, ArrowDown, Loader2 } from 'lucide-react';
+
+interface ExportDialogProps {
+  pages: Page[];
+  selectedPageId: string | null;
+  checkedPageIds: string[];
+  mergeDocuments: boolean;
+  projectName: string;
+  onClose: () => void;
+}
+
+const SCOPES: { scope: ExportScope; label: string }[] = [
+  { scope: 'page', label: 'Current page' },
+  { scope: 'selection', label: 'Selected pages' },
+  { scope: 'master', label: 'Master sheet' },
+];
+
+// Enough of the output to check the layout without serializing a huge preview
+const PREVIEW_ROWS = 5;
+const PREVIEW_CHARS = 4000;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ pages, selectedPageId, checkedPageIds, mergeDocuments, projectName, onClose }) => {
+  // Data exports write the tables; archive exports rebuild the scanned pages with their text
+  const [mode, setMode] = useState<'data' | 'archive'>('data');
+  const [formatId, setFormatId] = useState<ExportFormatId>('json');
+  const [archiveFormatId, setArchiveFormatId] = useState<ArchiveFormatId>('pdf');
+  const [isExporting, setIsExporting] = useState(false);
+  const [archiveNote, setArchiveNote] = useState<string | null>(null);
+  const [scope, setScope] = useState<ExportScope>(checkedPageIds.length > 0 ? 'selection' : selectedPageId ? 'page' : 'master');
+  const [filename, setFilename] = useState(projectName.trim() || 'export');
+  const [tableName, setTableName] = useState('extracted_data');
+  const [sqlDialect, setSqlDialect] = useState<SqlDialect>('sqlite');
+  const [mapping, setMapping] = useState<ColumnMapping[]>([]);
+
+  const scopePageIds = scope === 'page' ? (selectedPageId ? [selectedPageId] : []) : checkedPageIds;
+  const tables = useMemo(
+    () => buildExportTables(pages, scope, { pageIds: scopePageIds, mergeDocuments }),
+    [pages, scope, scopePageIds.join(','), mergeDocuments]
+  );
+
+  // A new scope brings its own columns; renames and exclusions made so far are kept
+  useEffect(() => {
+    setMapping(prev => defaultColumnMapping(tables).map(m => prev.find(p => p.source === m.source) ?? m));
+  }, [tables]);
+
+  const updateMapping = (index: number, patch: Partial<ColumnMapping>) => {
+    setMapping(prev => prev.map((m, i) => i === index ? { ...m, ...patch } : m));
+  };
+
+  const moveMapping = (index: number, offset: number) => {
+    setMapping(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const included = mapping.filter(m => m.include);
+  const names = included.map(m => m.name.trim());
+  const dataError = tables.length === 0 ? 'No extracted data in this scope.'
+    : included.length === 0 ? 'Include at least one column.'
+    : names.some(n => !n) ? 'Every included column needs a name.'
+    : new Set(names).size !== names.length ? 'Column names must be unique.'
+    : null;
+
+  // Archives cover whole pages, extracted or not; the master scope means every page
+  const archivePages = scope === 'master' ? pages : pages.filter(p => scopePageIds.includes(p.id));
+  const filledCells = archivePages.flatMap(p => (p.extractedData ?? []).flatMap((row, r) =>
+    Object.entries(row).filter(([, v]) => v !== null && String(v).trim() !== '').map(([column]) => p.cellProvenance?.[cellKey(r, column)])
+  ));
+  const cellCount = filledCells.length;
+  const placedCount = filledCells.filter(c => c?.box).length;
+  const error = mode === 'data' ? dataError : archivePages.length === 0 ? 'No pages in this scope.' : null;
+
+  const options = { tableName, sqlDialect };
+  const preview = useMemo(() => {
+    if (mode !== 'data' || error) return '';
+    const sample = applyColumnMapping(tables, mapping).map(t => ({ ...t, rows: t.rows.slice(0, PREVIEW_ROWS) }));
+    const text = getExportFormat(formatId).serialize(sample, options);
+    return text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}\n…` : text;
+  }, [mode, error, tables, mapping, formatId, tableName, sqlDialect]);
+
+  const handleExport = async () => {
+    if (error) return;
+    if (mode === 'data') {
+      exportTables(applyColumnMapping(tables, mapping), formatId, options, filename.trim() || 'export');
+      onClose();
+      return;
+    }
+    setIsExporting(true);
+    setArchiveNote(null);
+    try {
+      const summary = await exportArchive(archivePages, archiveFormatId, filename.trim() || 'export');
+      setArchiveNote(
+        `Exported ${summary.pages} page${summary.pages === 1 ? '' : 's'} with ${summary.words} positioned cell${summary.words === 1 ? '' : 's'}` +
+        (summary.unplaced ? `; ${summary.unplaced} cell${summary.unplaced === 1 ? '' : 's'} had no source position and were left out of the text layer.` : '.')
+      );
+    } catch (err: any) {
+      console.error('Archive export failed:', err);
+      setArchiveNote(`Export failed: ${err.message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const rowCount = tables.reduce((sum, t) => sum + t.rows.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[85vh] flex flex-col app-card rounded-xl shadow-2xl border app-border overflow-hidden animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b app-border flex justify-between items-center bg-[var(--bg-sidebar)] shrink-0">
+          <h3 className="text-lg font-semibold flex items-center gap-2 app-text">
+            <FileOutput className="w-5 h-5 text-[var(--accent)]" />
+            Export
+          </h3>
+          <div className="flex items-center gap-1 p-1 rounded-lg bg-[var(--bg-main)] border app-border ml-auto mr-3">
+            {(['data', 'archive'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${mode === m ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+              >
+                {m === 'data' ? 'Table Data' : 'Searchable Archive'}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full app-text-muted hover:bg-black/5 dark:hover:bg-white/10 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Format, scope and column mapping */}
+          <div className="w-[26rem] border-r app-border overflow-y-auto p-5 space-y-5 shrink-0">
+            <div className="space-y-2">
+              <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">Format</label>
+              <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-[var(--bg-main)] border app-border">
+                {mode === 'data' ? listExportFormats().map(f => (
+                  <button
+                    key={f.id}
+                    onClick={() => setFormatId(f.id)}
+                    className={`py-1 text-xs font-medium rounded-md transition-colors ${formatId === f.id ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                  >
+                    {f.label}
+                  </button>
+                )) : ARCHIVE_FORMATS.map(f => (
+                  <button
+                    key={f.id}
+                    onClick={() => setArchiveFormatId(f.id)}
+                    className={`py-1 text-xs font-medium rounded-md transition-colors ${archiveFormatId === f.id ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">Scope</label>
+              <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-[var(--bg-main)] border app-border">
+                {SCOPES.map(({ scope: s, label }) => (
+                  <button
+                    key={s}
+                    onClick={() => setScope(s)}
+                    disabled={(s === 'page' && !selectedPageId) || (s === 'selection' && checkedPageIds.length === 0)}
+                    className={`py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-40 ${scope === s ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                  >
+                    {mode === 'archive' && s === 'master' ? 'All pages' : label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] app-text-muted">
+                {mode === 'data'
+                  ? <>{tables.length} table{tables.length === 1 ? '' : 's'}, {rowCount} row{rowCount === 1 ? '' : 's'}{mergeDocuments ? ' · pages merged per file' : ''}</>
+                  : <>{archivePages.length} page{archivePages.length === 1 ? '' : 's'}</>}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">File name</label>
+                <input
+                  value={filename}
+                  onChange={(e) => setFilename(e.target.value)}
+                  className="w-full px-2 py-1.5 text-sm bg-transparent border app-border rounded-md outline-none focus:border-[var(--accent)] app-text"
+                />
+              </div>
+              {mode === 'data' && formatId === 'sql' && (
+                <div className="space-y-1">
+                  <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">Dialect</label>
+                  <select
+                    value={sqlDialect}
+                    onChange={(e) => setSqlDialect(e.target.value as SqlDialect)}
+                    className="w-full px-2 py-1.5 text-sm bg-[var(--bg-card)] border app-border rounded-md outline-none app-text"
+                  >
+                    <option value="sqlite">SQLite</option>
+                    <option value="postgres">PostgreSQL</option>
+                  </select>
+                </div>
+              )}
+              {mode === 'data' && formatId === 'sql' && (
+                <div className="space-y-1 col-span-2">
+                  <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">
+                    {tables.length > 1 ? 'Table name prefix' : 'Table name'}
+                  </label>
+                  <input
+                    value={tableName}
+                    onChange={(e) => setTableName(e.target.value)}
+                    className="w-full px-2 py-1.5 text-sm bg-transparent border app-border rounded-md outline-none focus:border-[var(--accent)] app-text"
+                  />
+                </div>
+              )}
+            </div>
+
+            {mode === 'data' && <div className="space-y-2">
+              <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">Columns</label>
+              {mapping.length === 0 && <p className="text-xs app-text-muted">No columns.</p>}
+              {mapping.map((m, index) => (
+                <div key={m.source} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={m.include}
+                    onChange={(e) => updateMapping(index, { include: e.target.checked })}
+                    style={{ accentColor: 'var(--accent)' }}
+                    title="Include column"
+                  />
+                  <span className="w-28 truncate text-xs app-text-muted" title={m.source}>{m.source}</span>
+                  <input
+                    value={m.name}
+                    onChange={(e) => updateMapping(index, { name: e.target.value })}
+                    disabled={!m.include}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm bg-transparent border app-border rounded-md outline-none focus:border-[var(--accent)] app-text disabled:opacity-40"
+                    placeholder="Exported name"
+                  />
+                  <button onClick={() => moveMapping(index, -1)} disabled={index === 0} className="p-1 app-text-muted hover:text-[var(--accent)] disabled:opacity-30" title="Move up">
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => moveMapping(index, 1)} disabled={index === mapping.length - 1} className="p-1 app-text-muted hover:text-[var(--accent)] disabled:opacity-30" title="Move down">
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>}
+          </div>
+
+          {/* Preview */}
+          {mode === 'data' ? (
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div className="px-5 py-2 text-xs font-semibold app-text-muted uppercase tracking-wider border-b app-border">
+                Preview (first {PREVIEW_ROWS} rows per table)
+              </div>
+              <pre className="flex-1 overflow-auto p-5 text-xs app-text bg-[var(--bg-main)] whitespace-pre">{error ?? preview}</pre>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-auto p-6 space-y-3 text-sm app-text bg-[var(--bg-main)]">
+              <p>
+                Every page is rebuilt from its original scan. The extracted cells are laid over it as
+                {archiveFormatId === 'pdf' ? ' invisible text, so the PDF looks like the scan but can be searched and copied.' : ' positioned text that OCR viewers and archive tools can read next to the images.'}
+              </p>
+              <p className="app-text-muted">
+                {placedCount} of {cellCount} extracted cells have a source position.
+                {placedCount < cellCount && ' Cells without one are left out; extract with "Capture confidence and cell locations" switched on to place them.'}
+              </p>
+              {archiveNote && <p className="text-[var(--accent)]">{archiveNote}</p>}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t app-border flex justify-end items-center gap-3 shrink-0">
+          {error && <span className="text-xs text-red-500">{error}</span>}
+          <button onClick={onClose} className="px-3 py-1.5 text-sm font-medium app-text-muted hover:app-text transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!!error || isExporting}
+            className="flex items-center gap-2 px-4 py-1.5 app-accent text-white text-sm font-medium rounded-md transition-colors shadow-sm disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export {mode === 'data' ? getExportFormat(formatId).label : ARCHIVE_FORMATS.find(f => f.id === archiveFormatId)!.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { EditHistory, HistoryEntry } from '../types';
+import { Undo2, Redo2, History, ChevronDown } from 'lucide-react';
+
+interface HistoryMenuProps {
+  history: EditHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+  isLocked: boolean; // While extraction runs the history can be viewed but not moved through
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (entryId: number | null) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl+';
+
+const HistoryMenu: React.FC<HistoryMenuProps> = ({ history, canUndo, canRedo, isLocked, onUndo, onRedo, onJump }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const lastApplied = history.past[history.past.length - 1];
+
+  const entryRow = (entry: HistoryEntry, undone: boolean) => (
+    <button
+      key={entry.id}
+      onClick={() => onJump(entry.id)}
+      disabled={isLocked}
+      className={`w-full text-left px-4 py-1.5 text-sm flex items-center justify-between gap-2 transition-colors disabled:cursor-not-allowed ${
+        entry === lastApplied ? 'bg-[var(--accent)] text-white' : 'app-text hover:bg-black/5 dark:hover:bg-white/10'
+      } ${undone ? 'opacity-50' : ''}`}
+      title={undone ? 'Redo up to this step' : 'Go back to just after this step'}
+    >
+      <span className="truncate">{entry.label}</span>
+      <span className="text-[11px] opacity-70 shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+    </button>
+  );
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={onUndo}
+        disabled={!canUndo}
+        className="p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        title={lastApplied ? `Undo ${lastApplied.label} (${MOD}Z)` : `Undo (${MOD}Z)`}
+      >
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+        title={history.future[0] ? `Redo ${history.future[0].label} (${MOD}${isMac ? '⇧Z' : 'Y'})` : `Redo (${MOD}${isMac ? '⇧Z' : 'Y'})`}
+      >
+        <Redo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted transition-colors"
+        title="Edit history"
+      >
+        <History className="w-4 h-4" />
+        <ChevronDown className="w-3 h-3 opacity-50" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute left-0 top-full mt-2 w-72 bg-[var(--bg-card)] border app-border rounded-xl shadow-xl z-50 overflow-hidden py-1 animate-in fade-in zoom-in-95 duration-200">
+            {isLocked && (
+              <p className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 border-b app-border">Available once extraction finishes.</p>
+            )}
+            <div className="max-h-80 overflow-y-auto">
+              {/* Newest at the top: undone steps, then applied ones, then the starting point */}
+              {[...history.future].reverse().map(entry => entryRow(entry, true))}
+              {[...history.past].reverse().map(entry => entryRow(entry, false))}
+              <button
+                onClick={() => onJump(null)}
+                disabled={isLocked}
+                className={`w-full text-left px-4 py-1.5 text-sm transition-colors disabled:cursor-not-allowed ${
+                  !lastApplied ? 'bg-[var(--accent)] text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'
+                }`}
+              >
+                Session start
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryMenu;
@@ -1,110 +1,177 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { ImageProcessingSettings } from '../types';
-import { DEFAULT_SETTINGS } from '../constants';
-import { Sliders, RotateCw, Check, X } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { BinarizationMode, FilterRunResult, ImageProcessingSettings, PresetSettings, ProcessingPreset, Quad } from '../types';
+import { DEFAULT_SETTINGS, DRAG_PREVIEW_SIZE, MAX_SKEW_ANGLE, PREVIEW_MAX_SIZE } from '../constants';
+import { createPreviewRenderer, detectPageGeometry, renderImage } from '../services/imagePipeline';
+import { applyPreset, createPresetId, describeFilterRun, findMatchingPreset, toPresetSettings } from '../services/presetService';
+import CornerEditor from './CornerEditor';
+import { Sliders, RotateCw, Check, X, Crop, Wand2, Loader2, Save, Trash2 } from 'lucide-react';
+
+type ApplyScope = 'checked' | 'all';
 
 interface ImageProcessorProps {
   imageData: string;
-  onProcessComplete: (processedImage: string) => void;
+  initialSettings?: ImageProcessingSettings; // Settings the page was last processed with
+  onProcessComplete: (processedImage: string, settings: ImageProcessingSettings) => void;
   onCancel: () => void;
+  presets?: ProcessingPreset[];
+  onSavePreset?: (preset: ProcessingPreset) => Promise<void>;
+  onDeletePreset?: (id: string) => Promise<void>;
+  checkedPageCount?: number; // Other pages ticked in the page list
+  // Applies the filters to other pages; resolves with how many were re-rendered, failed or left alone
+  onApplyToPages?: (filters: PresetSettings, scope: ApplyScope) => Promise<FilterRunResult>;
+  onCancelApply?: () => void;
 }
 
-const ImageProcessor: React.FC<ImageProcessorProps> = ({ imageData, onProcessComplete, onCancel }) => {
+const BINARIZATION_MODES: { mode: BinarizationMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'global', label: 'Fixed' },
+  { mode: 'otsu', label: 'Otsu' },
+  { mode: 'mean', label: 'Mean' },
+  { mode: 'sauvola', label: 'Sauvola' },
+];
+
+const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+const ImageProcessor: React.FC<ImageProcessorProps> = ({
+  imageData, initialSettings, onProcessComplete, onCancel,
+  presets = [], onSavePreset, onDeletePreset, checkedPageCount = 0, onApplyToPages, onCancelApply
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [settings, setSettings] = useState<ImageProcessingSettings>(DEFAULT_SETTINGS);
+  const [settings, setSettings] = useState<ImageProcessingSettings>(initialSettings ?? DEFAULT_SETTINGS);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [processError, setProcessError] = useState<string | null>(null);
+  const [applyingScope, setApplyingScope] = useState<ApplyScope | null>(null);
+  const [applyNote, setApplyNote] = useState<{ text: string; isError: boolean } | null>(null);
+  const [presetName, setPresetName] = useState<string | null>(null); // Non-null while naming a new preset
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [isEditingCorners, setIsEditingCorners] = useState(false);
+  const [detectionNote, setDetectionNote] = useState<string | null>(null);
+  const [canvasBox, setCanvasBox] = useState<React.CSSProperties>({});
 
-  // Apply filters using Canvas API (Simulating OpenCV operations)
-  const applyFilters = useCallback(() => {
+  // Keeps the corner overlay aligned with the canvas as it is redrawn or resized
+  const measureCanvas = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const img = new Image();
-    img.src = imageData;
-    img.onload = () => {
-      // Handle Rotation Dimensions
-      if (settings.rotation % 180 !== 0) {
-        canvas.width = img.height;
-        canvas.height = img.width;
-      } else {
-        canvas.width = img.width;
-        canvas.height = img.height;
-      }
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.save();
-      
-      // Move to center, rotate, move back
-      ctx.translate(canvas.width / 2, canvas.height / 2);
-      ctx.rotate((settings.rotation * Math.PI) / 180);
-      if (settings.rotation % 180 !== 0) {
-        ctx.drawImage(img, -img.height / 2, -img.width / 2);
-      } else {
-        ctx.drawImage(img, -img.width / 2, -img.height / 2);
-      }
-      ctx.restore();
-
-      // Get pixel data for pixel-level manipulation (Thresholding/Grayscale)
-      const imageDataObj = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageDataObj.data;
-
-      const contrastFactor = (259 * (settings.contrast + 255)) / (255 * (259 - settings.contrast));
-
-      for (let i = 0; i < data.length; i += 4) {
-        let r = data[i];
-        let g = data[i + 1];
-        let b = data[i + 2];
-
-        // Grayscale (Weighted method)
-        if (settings.grayscale || settings.threshold > 0) {
-          const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-          r = g = b = gray;
-        }
+    setCanvasBox({
+      left: canvas.offsetLeft + canvas.clientLeft,
+      top: canvas.offsetTop + canvas.clientTop,
+      width: canvas.clientWidth,
+      height: canvas.clientHeight,
+    });
+  }, []);
 
-        // Brightness
-        r += settings.brightness;
-        g += settings.brightness;
-        b += settings.brightness;
-
-        // Contrast
-        r = contrastFactor * (r - 128) + 128;
-        g = contrastFactor * (g - 128) + 128;
-        b = contrastFactor * (b - 128) + 128;
-
-        // Thresholding (Binarization) - Key for OCR
-        if (settings.threshold > 0) {
-            const v = (r + g + b) / 3; // already grayscale, but just to be safe
-            const bin = v >= settings.threshold ? 255 : 0;
-            r = g = b = bin;
-        }
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(measureCanvas);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [measureCanvas]);
 
-        // Clamp values
-        data[i] = Math.max(0, Math.min(255, r));
-        data[i + 1] = Math.max(0, Math.min(255, g));
-        data[i + 2] = Math.max(0, Math.min(255, b));
-      }
+  /**
+   * Finds the sheet's corners on a downscaled copy, then estimates the remaining text skew
+   * on the flattened result. Runs once per image and again on request.
+   */
+  const autoDetect = useCallback(async (rotation: number) => {
+    try {
+      const { corners, skewAngle } = await detectPageGeometry(imageData, rotation);
+      setSettings(s => ({ ...s, corners, skewAngle }));
+      setDetectionNote(
+        `${corners ? 'Document edges detected' : 'No document edges found'}${skewAngle ? `, straightened by ${skewAngle}°` : ''}.`
+      );
+    } catch (error) {
+      console.error('Edge detection failed:', error);
+      setDetectionNote('Edge detection failed.');
+    }
+  }, [imageData]);
 
-      ctx.putImageData(imageDataObj, 0, 0);
-    };
-  }, [imageData, settings]);
+  // A page processed before keeps its corners and skew
+  useEffect(() => {
+    if (!initialSettings) autoDetect(DEFAULT_SETTINGS.rotation);
+  }, [autoDetect]);
+
+  const activePreset = findMatchingPreset(presets, settings);
+
+  const handleSavePreset = async () => {
+    const name = presetName?.trim();
+    if (!name || !onSavePreset) return;
+    setPresetError(null);
+    try {
+      await onSavePreset({ id: createPresetId(), name, settings: toPresetSettings(settings) });
+      setPresetName(null);
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      setPresetError(`The preset could not be saved${error instanceof Error ? `: ${error.message}` : '.'}`);
+    }
+  };
+
+  const handleDeletePreset = async (id: string) => {
+    if (!onDeletePreset) return;
+    setPresetError(null);
+    try {
+      await onDeletePreset(id);
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+      setPresetError(`The preset could not be deleted${error instanceof Error ? `: ${error.message}` : '.'}`);
+    }
+  };
+
+  const handleApplyToPages = async (scope: ApplyScope) => {
+    if (!onApplyToPages) return;
+    setApplyingScope(scope);
+    setApplyNote(null);
+    try {
+      const result = await onApplyToPages(toPresetSettings(settings), scope);
+      setApplyNote({ text: describeFilterRun(result), isError: result.failed > 0 });
+    } finally {
+      setApplyingScope(null);
+    }
+  };
+
+  // Filters run in a worker; previews are scaled down, and further still while a slider is dragged
+  const requestPreview = useMemo(() => createPreviewRenderer(), []);
+  const [isDraggingControl, setIsDraggingControl] = useState(false);
 
   useEffect(() => {
-    // Debounce the filter application for performance
-    const timer = setTimeout(applyFilters, 100);
-    return () => clearTimeout(timer);
-  }, [applyFilters]);
-
-  const handleSave = () => {
-    if (canvasRef.current) {
-      setIsProcessing(true);
-      // Small delay to allow UI to update
-      setTimeout(() => {
-        const processed = canvasRef.current!.toDataURL('image/png');
-        onProcessComplete(processed);
-      }, 50);
+    const stopDragging = () => setIsDraggingControl(false);
+    window.addEventListener('pointerup', stopDragging);
+    return () => window.removeEventListener('pointerup', stopDragging);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    // While the corners are being placed the untouched photo is shown
+    const previewSettings = isEditingCorners ? { ...DEFAULT_SETTINGS, rotation: settings.rotation } : settings;
+    requestPreview(imageData, previewSettings, isDraggingControl ? DRAG_PREVIEW_SIZE : PREVIEW_MAX_SIZE)
+      .then(bitmap => {
+        const canvas = canvasRef.current;
+        if (!bitmap) return;
+        if (cancelled || !canvas) {
+          bitmap.close();
+          return;
+        }
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        bitmap.close();
+        measureCanvas();
+      })
+      .catch(error => console.error('Preview failed:', error));
+    return () => { cancelled = true; };
+  }, [imageData, settings, isEditingCorners, isDraggingControl, requestPreview, measureCanvas]);
+
+  // The page handed on for extraction is rendered again at full resolution
+  const handleSave = async () => {
+    setIsProcessing(true);
+    setProcessError(null);
+    try {
+      const { image, settings: used } = await renderImage(imageData, settings);
+      onProcessComplete(image, used);
+    } catch (error) {
+      console.error('Image processing failed:', error);
+      setProcessError(`The image could not be processed${error instanceof Error ? `: ${error.message}` : '.'}`);
+      setIsProcessing(false);
     }
   };
 
@@ -117,12 +184,14 @@ const ImageProcessor: React.FC<ImageProcessorProps> = ({ imageData, onProcessCom
           Pre-process Image
         </h3>
         <div className="flex gap-2">
+            {processError && <span className="self-center max-w-xs truncate text-xs text-red-500" title={processError}>{processError}</span>}
             <button onClick={onCancel} className="px-3 py-1 text-sm font-medium app-text-muted hover:app-text transition-colors">
                 Cancel
             </button>
             <button 
                 onClick={handleSave} 
-                disabled={isProcessing}
+                disabled={isProcessing || isEditingCorners}
+                title={isEditingCorners ? 'Finish adjusting the corners first' : undefined}
                 className="flex items-center gap-2 px-4 py-1.5 app-accent text-white text-sm font-medium rounded-md transition-colors shadow-sm disabled:opacity-50"
             >
                 {isProcessing ? 'Processing...' : <><Check className="w-4 h-4" /> Next: Extract Data</>}
@@ -135,16 +204,94 @@ const ImageProcessor: React.FC<ImageProcessorProps> = ({ imageData, onProcessCom
         {/* Canvas Display Area */}
         <div ref={containerRef} className="flex-1 bg-black/5 dark:bg-black/20 p-4 md:p-8 overflow-auto flex items-center justify-center relative min-h-0">
             <canvas ref={canvasRef} className="max-w-full max-h-full shadow-2xl border-2 border-[var(--border)] object-contain" />
+            {isEditingCorners && (
+              <CornerEditor
+                corners={settings.corners ?? FULL_FRAME}
+                onChange={(corners) => setSettings(s => ({ ...s, corners }))}
+                style={canvasBox}
+              />
+            )}
         </div>
 
         {/* Controls Sidebar */}
-        <div className="w-full lg:w-80 app-card lg:border-l app-border p-6 overflow-y-auto shrink-0 bg-[var(--bg-card)]">
+        <div
+          className="w-full lg:w-80 app-card lg:border-l app-border p-6 overflow-y-auto shrink-0 bg-[var(--bg-card)]"
+          onPointerDown={(e) => { if ((e.target as HTMLElement).matches('input[type="range"]')) setIsDraggingControl(true); }}
+        >
             <div className="space-y-6">
+              {/* Presets */}
+              {presets.length > 0 && (
+                <div className="space-y-2">
+                    <div className="flex justify-between text-xs font-semibold app-text-muted uppercase tracking-wider">
+                        <span>Preset</span>
+                    </div>
+                    <div className="flex gap-2">
+                        <select
+                            value={activePreset?.id ?? ''}
+                            onChange={(e) => {
+                              const preset = presets.find(p => p.id === e.target.value);
+                              if (preset) setSettings(s => applyPreset(preset, s));
+                            }}
+                            className="flex-1 min-w-0 text-sm px-2 py-1.5 rounded-md border app-border bg-[var(--bg-main)] app-text focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+                        >
+                            <option value="" disabled>Custom</option>
+                            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        {onSavePreset && (
+                          <button
+                              onClick={() => setPresetName(name => name === null ? '' : null)}
+                              className="p-1.5 hover:bg-black/5 dark:hover:bg-white/10 rounded-md transition-colors border app-border"
+                              title="Save current filters as a preset"
+                          >
+                              <Save className="w-4 h-4 app-text-muted" />
+                          </button>
+                        )}
+                        {onDeletePreset && activePreset && !activePreset.builtIn && (
+                          <button
+                              onClick={() => handleDeletePreset(activePreset.id)}
+                              className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors border app-border"
+                              title="Delete preset"
+                          >
+                              <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                    </div>
+                    {presetName !== null && (
+                      <div className="flex gap-2">
+                          <input
+                              autoFocus
+                              value={presetName}
+                              onChange={(e) => setPresetName(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleSavePreset();
+                                if (e.key === 'Escape') setPresetName(null);
+                              }}
+                              placeholder="Preset name"
+                              className="flex-1 min-w-0 text-sm px-2 py-1.5 rounded-md border app-border bg-[var(--bg-main)] app-text focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+                          />
+                          <button
+                              onClick={handleSavePreset}
+                              disabled={!presetName.trim()}
+                              className="px-3 text-xs font-medium app-accent text-white rounded-md disabled:opacity-50"
+                          >
+                              Save
+                          </button>
+                      </div>
+                    )}
+                    {presetError && <p className="text-xs text-red-500">{presetError}</p>}
+                </div>
+              )}
+
               <div className="space-y-4">
                   <div className="flex justify-between items-center">
                       <label className="text-sm font-medium app-text">Rotation</label>
                       <button 
-                          onClick={() => setSettings(s => ({ ...s, rotation: (s.rotation + 90) % 360 }))}
+                          // Corners and skew belong to the old orientation, so detection runs again
+                          onClick={() => {
+                            const rotation = (settings.rotation + 90) % 360;
+                            setSettings(s => ({ ...s, rotation, corners: null, skewAngle: 0 }));
+                            autoDetect(rotation);
+                          }}
                           className="p-1.5 hover:bg-black/5 dark:hover:bg-white/10 rounded-md transition-colors border app-border"
                           title="Rotate 90 degrees"
                       >
@@ -153,6 +300,52 @@ const ImageProcessor: React.FC<ImageProcessorProps> = ({ imageData, onProcessCom
                   </div>
               </div>
 
+              {/* Document geometry */}
+              <div className="space-y-3">
+                  <div className="flex gap-2">
+                      <button
+                          onClick={() => autoDetect(settings.rotation)}
+                          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs font-medium app-text border app-border rounded-md hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+                          title="Detect the document edges and straighten the text"
+                      >
+                          <Wand2 className="w-3.5 h-3.5" /> Auto Detect
+                      </button>
+                      <button
+                          onClick={() => setIsEditingCorners(v => !v)}
+                          className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs font-medium border rounded-md transition-colors ${
+                            isEditingCorners ? 'app-accent text-white border-transparent' : 'app-text app-border hover:bg-black/5 dark:hover:bg-white/10'
+                          }`}
+                          title="Drag the four corners of the document"
+                      >
+                          <Crop className="w-3.5 h-3.5" /> {isEditingCorners ? 'Done' : 'Adjust Corners'}
+                      </button>
+                  </div>
+                  {settings.corners && (
+                      <button
+                          onClick={() => setSettings(s => ({ ...s, corners: null }))}
+                          className="text-[11px] app-text-muted hover:text-[var(--accent)] transition-colors"
+                      >
+                          Use full frame
+                      </button>
+                  )}
+                  {detectionNote && <p className="text-[11px] leading-tight app-text-muted opacity-80">{detectionNote}</p>}
+              </div>
+
+              {/* Deskew */}
+              <div className="space-y-3">
+                  <div className="flex justify-between text-xs font-semibold app-text-muted uppercase tracking-wider">
+                      <span>Straighten</span>
+                      <span className="text-[var(--accent)]">{settings.skewAngle.toFixed(1)}°</span>
+                  </div>
+                  <input 
+                      type="range" min={-MAX_SKEW_ANGLE} max={MAX_SKEW_ANGLE} step="0.1"
+                      value={settings.skewAngle}
+                      onChange={(e) => setSettings({...settings, skewAngle: Number(e.target.value)})}
+                      className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                      style={{accentColor: 'var(--accent)'}}
+                  />
+              </div>
+
               <hr className="app-border opacity-50" />
 
               {/* Brightness */}
@@ -203,26 +396,168 @@ const ImageProcessor: React.FC<ImageProcessorProps> = ({ imageData, onProcessCom
                       </button>
                   </div>
 
-                  {/* Thresholding */}
+                  <div className="flex items-center justify-between p-3 rounded-xl bg-[var(--bg-main)] border app-border">
+                      <div>
+                        <label className="text-sm font-medium app-text">Flatten Shadows</label>
+                        <p className="text-[11px] leading-tight app-text-muted opacity-80">Evens out uneven lighting on the paper.</p>
+                      </div>
+                      <button 
+                          onClick={() => setSettings(s => ({...s, flattenBackground: !s.flattenBackground}))}
+                          className={`w-11 h-6 shrink-0 flex items-center rounded-full transition-colors duration-200 ${settings.flattenBackground ? 'app-accent' : 'bg-slate-300 dark:bg-slate-600'}`}
+                      >
+                          <span className={`w-4 h-4 bg-white rounded-full shadow transform transition-transform duration-200 ${settings.flattenBackground ? 'translate-x-6' : 'translate-x-1'}`} />
+                      </button>
+                  </div>
+
+                  {/* Despeckle */}
                   <div className="space-y-3">
                       <div className="flex justify-between text-xs font-semibold app-text-muted uppercase tracking-wider">
-                          <span>Binarization</span>
-                          <span className="text-[var(--accent)]">{settings.threshold === 0 ? 'Off' : settings.threshold}</span>
+                          <span>Despeckle</span>
+                      </div>
+                      <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-[var(--bg-main)] border app-border">
+                          {[0, 1, 2].map(radius => (
+                              <button
+                                  key={radius}
+                                  onClick={() => setSettings(s => ({...s, medianRadius: radius}))}
+                                  className={`py-1 text-xs font-medium rounded-md transition-colors ${settings.medianRadius === radius ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                              >
+                                  {radius === 0 ? 'Off' : `${radius * 2 + 1}×${radius * 2 + 1}`}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+
+                  {/* Sharpen */}
+                  <div className="space-y-3">
+                      <div className="flex justify-between text-xs font-semibold app-text-muted uppercase tracking-wider">
+                          <span>Sharpen</span>
+                          <span className="text-[var(--accent)]">{settings.sharpen === 0 ? 'Off' : settings.sharpen}</span>
                       </div>
                       <input 
-                          type="range" min="0" max="255" 
-                          value={settings.threshold}
-                          onChange={(e) => setSettings({...settings, threshold: Number(e.target.value)})}
+                          type="range" min="0" max="100" 
+                          value={settings.sharpen}
+                          onChange={(e) => setSettings({...settings, sharpen: Number(e.target.value)})}
                           className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
                           style={{accentColor: 'var(--accent)'}}
                       />
+                  </div>
+
+                  {/* Thresholding */}
+                  <div className="space-y-3">
+                      <div className="flex justify-between text-xs font-semibold app-text-muted uppercase tracking-wider">
+                          <span>Binarization</span>
+                      </div>
+                      <div className="grid grid-cols-5 gap-1 p-1 rounded-lg bg-[var(--bg-main)] border app-border">
+                          {BINARIZATION_MODES.map(({ mode, label }) => (
+                              <button
+                                  key={mode}
+                                  onClick={() => setSettings(s => ({...s, binarization: mode}))}
+                                  className={`py-1 text-[11px] font-medium rounded-md transition-colors ${settings.binarization === mode ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                              >
+                                  {label}
+                              </button>
+                          ))}
+                      </div>
+
+                      {settings.binarization === 'global' && (
+                        <>
+                          <div className="flex justify-between text-xs app-text-muted">
+                              <span>Threshold</span>
+                              <span className="text-[var(--accent)]">{settings.threshold}</span>
+                          </div>
+                          <input 
+                              type="range" min="1" max="255" 
+                              value={settings.threshold}
+                              onChange={(e) => setSettings({...settings, threshold: Number(e.target.value)})}
+                              className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                              style={{accentColor: 'var(--accent)'}}
+                          />
+                        </>
+                      )}
+
+                      {(settings.binarization === 'mean' || settings.binarization === 'sauvola') && (
+                        <>
+                          <div className="flex justify-between text-xs app-text-muted">
+                              <span>Window</span>
+                              <span className="text-[var(--accent)]">{settings.adaptiveWindow}px</span>
+                          </div>
+                          <input 
+                              type="range" min="5" max="101" step="2"
+                              value={settings.adaptiveWindow}
+                              onChange={(e) => setSettings({...settings, adaptiveWindow: Number(e.target.value)})}
+                              className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                              style={{accentColor: 'var(--accent)'}}
+                          />
+                          {settings.binarization === 'sauvola' ? (
+                            <>
+                              <div className="flex justify-between text-xs app-text-muted">
+                                  <span>Sensitivity (k)</span>
+                                  <span className="text-[var(--accent)]">{settings.sauvolaK.toFixed(2)}</span>
+                              </div>
+                              <input 
+                                  type="range" min="0.05" max="0.6" step="0.01"
+                                  value={settings.sauvolaK}
+                                  onChange={(e) => setSettings({...settings, sauvolaK: Number(e.target.value)})}
+                                  className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                                  style={{accentColor: 'var(--accent)'}}
+                              />
+                            </>
+                          ) : (
+                            <>
+                              <div className="flex justify-between text-xs app-text-muted">
+                                  <span>Offset</span>
+                                  <span className="text-[var(--accent)]">{settings.meanOffset}</span>
+                              </div>
+                              <input 
+                                  type="range" min="0" max="50" 
+                                  value={settings.meanOffset}
+                                  onChange={(e) => setSettings({...settings, meanOffset: Number(e.target.value)})}
+                                  className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                                  style={{accentColor: 'var(--accent)'}}
+                              />
+                            </>
+                          )}
+                        </>
+                      )}
+
                       <p className="text-[11px] leading-tight app-text-muted opacity-80">
-                        High contrast black/white conversion. Ideal for removing shadows from text documents.
+                        High contrast black/white conversion. Otsu picks the level automatically; Mean and Sauvola adapt to each area of the page and cope with shadows.
                       </p>
                   </div>
               </div>
 
-              <div className="pt-4">
+              <div className="pt-4 space-y-2">
+                {onApplyToPages && (
+                  <>
+                    <div className="text-xs font-semibold app-text-muted uppercase tracking-wider">Apply filters to</div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => handleApplyToPages('checked')}
+                            disabled={applyingScope !== null || checkedPageCount === 0}
+                            className="flex items-center justify-center gap-2 py-2.5 text-[11px] font-bold uppercase tracking-wider text-[var(--accent)] border app-border rounded-xl hover:bg-black/5 dark:hover:bg-white/10 transition-all active:scale-[0.98] disabled:opacity-50"
+                            title="Apply these filters to the pages ticked in the page list"
+                        >
+                            {applyingScope === 'checked' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : `Selected (${checkedPageCount})`}
+                        </button>
+                        <button
+                            onClick={() => handleApplyToPages('all')}
+                            disabled={applyingScope !== null}
+                            className="flex items-center justify-center gap-2 py-2.5 text-[11px] font-bold uppercase tracking-wider text-[var(--accent)] border app-border rounded-xl hover:bg-black/5 dark:hover:bg-white/10 transition-all active:scale-[0.98] disabled:opacity-50"
+                            title="Apply these filters to every other page; pages keep their own edges and skew"
+                        >
+                            {applyingScope === 'all' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'All Pages'}
+                        </button>
+                    </div>
+                    {applyingScope && onCancelApply && (
+                      <button onClick={onCancelApply} className="text-[11px] font-medium app-text-muted hover:text-[var(--accent)]">
+                        Cancel
+                      </button>
+                    )}
+                    {applyNote && (
+                      <p className={`text-[11px] leading-tight ${applyNote.isError ? 'text-red-500' : 'app-text-muted opacity-80'}`}>{applyNote.text}</p>
+                    )}
+                  </>
+                )}
                 <button 
                     onClick={() => setSettings(DEFAULT_SETTINGS)}
                     className="w-full py-2.5 text-xs font-bold uppercase tracking-widest app-text-muted hover:app-text border app-border rounded-xl hover:bg-black/5 dark:hover:bg-white/10 transition-all active:scale-[0.98]"
@@ -0,0 +1,37 @@
+import React from 'react';
+import { SkippedFile } from '../types';
+import { FileWarning, X } from 'lucide-react';
+
+interface ImportReportProps {
+  files: SkippedFile[];
+  onDismiss: () => void;
+}
+
+// Stays up until dismissed, so a long multi-file import can't scroll a rejected file out of sight
+const ImportReport: React.FC<ImportReportProps> = ({ files, onDismiss }) => (
+  <div className="absolute bottom-4 right-4 z-30 w-96 max-w-[calc(100%-2rem)] app-card border rounded-xl shadow-xl animate-in fade-in slide-in-from-bottom-2 duration-200">
+    <div className="flex items-center gap-2 px-4 py-3 border-b app-border">
+      <FileWarning className="w-4 h-4 text-amber-500 shrink-0" />
+      <p className="text-sm font-semibold app-text flex-1">
+        {files.length} file{files.length === 1 ? '' : 's'} not fully imported
+      </p>
+      <button
+        onClick={onDismiss}
+        className="p-1 rounded-full app-text-muted hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+        title="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <ul className="max-h-60 overflow-y-auto px-4 py-2 divide-y app-border">
+      {files.map((file, index) => (
+        <li key={`${file.fileName}-${index}`} className="py-2">
+          <p className="text-xs font-medium app-text truncate" title={file.fileName}>{file.fileName}</p>
+          <p className="text-xs app-text-muted">{file.reason}</p>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ImportReport;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { PdfImageFormat, PdfImportOptions } from '../types';
+import { DEFAULT_PDF_IMPORT_OPTIONS, PDF_DPI_CHOICES } from '../constants';
+import { parsePageRange } from '../utils/fileUtils';
+import { FileCog, ChevronDown } from 'lucide-react';
+
+interface PdfImportMenuProps {
+  options: PdfImportOptions;
+  onChange: (options: PdfImportOptions) => void;
+  align?: 'left' | 'right';
+}
+
+const FORMATS: { id: PdfImageFormat; label: string }[] = [
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'png', label: 'PNG (lossless)' },
+];
+
+const PdfImportMenu: React.FC<PdfImportMenuProps> = ({ options, onChange, align = 'right' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Checked without a page count, so only the syntax is validated here
+  const rangeIsValid = parsePageRange(options.pageRange, 0) !== null;
+  const isCustom = options.pageRange.trim() !== ''
+    || options.dpi !== DEFAULT_PDF_IMPORT_OPTIONS.dpi
+    || options.imageFormat !== DEFAULT_PDF_IMPORT_OPTIONS.imageFormat
+    || options.useTextLayer !== DEFAULT_PDF_IMPORT_OPTIONS.useTextLayer;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 p-1.5 rounded-full transition-colors hover:bg-black/5 dark:hover:bg-white/10 ${isCustom ? 'text-[var(--accent)]' : 'app-text-muted'}`}
+        title={`PDF import: ${options.dpi} DPI, ${options.imageFormat.toUpperCase()}${options.pageRange.trim() ? `, pages ${options.pageRange.trim()}` : ''}`}
+      >
+        <FileCog className="w-4 h-4" />
+        <ChevronDown className="w-3 h-3 opacity-50" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} top-full mt-2 w-64 bg-[var(--bg-card)] border app-border rounded-xl shadow-xl z-50 p-4 space-y-4 animate-in fade-in zoom-in-95 duration-200`}>
+            <p className="text-xs font-semibold app-text-muted uppercase tracking-wider">PDF Import</p>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium app-text">Resolution</label>
+              <select
+                value={options.dpi}
+                onChange={(e) => onChange({ ...options, dpi: Number(e.target.value) })}
+                className="w-full px-2 py-1.5 text-sm bg-[var(--bg-card)] border app-border rounded-md outline-none app-text"
+              >
+                {PDF_DPI_CHOICES.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+              </select>
+              <p className="text-[11px] app-text-muted">Higher helps small print but makes pages slower to process.</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium app-text">Pages</label>
+              <input
+                value={options.pageRange}
+                onChange={(e) => onChange({ ...options, pageRange: e.target.value })}
+                placeholder="All pages, or e.g. 1-3, 7, 10-"
+                className={`w-full px-2 py-1.5 text-sm bg-transparent border rounded-md outline-none app-text ${rangeIsValid ? 'app-border focus:border-[var(--accent)]' : 'border-red-500'}`}
+              />
+              {!rangeIsValid && <p className="text-[11px] text-red-500">Use page numbers and ranges separated by commas.</p>}
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium app-text">Image format</label>
+              <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-[var(--bg-main)] border app-border">
+                {FORMATS.map(f => (
+                  <button
+                    key={f.id}
+                    onClick={() => onChange({ ...options, imageFormat: f.id })}
+                    className={`py-1 text-xs font-medium rounded-md transition-colors ${options.imageFormat === f.id ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.useTextLayer}
+                onChange={(e) => onChange({ ...options, useTextLayer: e.target.checked })}
+                style={{ accentColor: 'var(--accent)' }}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="block text-xs font-medium app-text">Use embedded text</span>
+                <span className="block text-[11px] app-text-muted">Pages with real text are read directly, without a model. Scanned pages still go to the model.</span>
+              </span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PdfImportMenu;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ProjectSummary, SaveStatus } from '../types';
+import { FolderOpen, ChevronDown, Plus, Trash2, Cloud, CloudOff, Loader2, HardDrive } from 'lucide-react';
+
+interface ProjectMenuProps {
+  projectId: string;
+  projectName: string;
+  saveStatus: SaveStatus;
+  saveError: string | null;
+  projectError: string | null;
+  reclaimableProjects: ProjectSummary[]; // Suggested for deletion, oldest first, once storage is nearly full
+  projects: ProjectSummary[];
+  onRename: (name: string) => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+  onMenuOpen: () => void;
+}
+
+const ProjectMenu: React.FC<ProjectMenuProps> = ({
+  projectId, projectName, saveStatus, saveError, projectError, reclaimableProjects, projects, onRename, onOpen, onNew, onDelete, onMenuOpen
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = () => {
+    if (!isOpen) onMenuOpen();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <input
+        value={projectName}
+        onChange={(e) => onRename(e.target.value)}
+        className="w-40 px-2 py-1 text-sm font-medium bg-transparent border border-transparent hover:border-[var(--border)] focus:border-[var(--accent)] rounded-md outline-none app-text transition-colors"
+        title="Project name"
+      />
+      <span className="app-text-muted" title={saveError || (saveStatus === 'saved' ? 'Saved in this browser' : undefined)}>
+        {saveStatus === 'saving' && <Loader2 className="w-4 h-4 animate-spin" />}
+        {saveStatus === 'saved' && <Cloud className="w-4 h-4" />}
+        {saveStatus === 'error' && <CloudOff className="w-4 h-4 text-red-500" />}
+      </span>
+      {reclaimableProjects.length > 0 && (
+        <button
+          onClick={toggle}
+          className="text-amber-500"
+          title="Browser storage is almost full. Open the project list to delete projects you no longer need."
+        >
+          <HardDrive className="w-4 h-4" />
+        </button>
+      )}
+      {projectError && (
+        <span className="max-w-xs truncate text-xs text-red-500" title={projectError}>{projectError}</span>
+      )}
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1 p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted transition-colors"
+        title="Projects"
+      >
+        <FolderOpen className="w-4 h-4" />
+        <ChevronDown className="w-3 h-3 opacity-50" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute left-0 top-full mt-2 w-72 bg-[var(--bg-card)] border app-border rounded-xl shadow-xl z-50 overflow-hidden py-1 animate-in fade-in zoom-in-95 duration-200">
+            <button
+              onClick={() => { onNew(); setIsOpen(false); }}
+              className="w-full text-left px-4 py-2 text-sm flex items-center gap-2 app-text hover:bg-black/5 dark:hover:bg-white/10 transition-colors border-b app-border"
+            >
+              <Plus className="w-4 h-4" /> New Project
+            </button>
+            {reclaimableProjects.length > 0 && (
+              <p className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 border-b app-border">
+                Browser storage is almost full. Delete projects you no longer need to keep autosaving, e.g. the oldest:{' '}
+                {reclaimableProjects.slice(0, 3).map(p => p.name).join(', ')}.
+              </p>
+            )}
+            {projects.length === 0 && (
+              <p className="px-4 py-3 text-xs app-text-muted">No saved projects yet.</p>
+            )}
+            <div className="max-h-72 overflow-y-auto">
+              {projects.map(p => (
+                <div
+                  key={p.id}
+                  className={`flex items-center gap-2 px-4 py-2 text-sm transition-colors ${
+                    p.id === projectId ? 'bg-[var(--accent)] text-white' : 'app-text hover:bg-black/5 dark:hover:bg-white/10'
+                  }`}
+                >
+                  <button
+                    onClick={() => { onOpen(p.id); setIsOpen(false); }}
+                    className="flex-1 text-left overflow-hidden"
+                  >
+                    <span className="block truncate font-medium">{p.name}</span>
+                    <span className="block text-[11px] opacity-70">
+                      {p.pageCount} pages · {new Date(p.updatedAt).toLocaleString()}
+                    </span>
+                  </button>
+                  {p.id !== projectId && (
+                    <button
+                      onClick={() => onDelete(p.id)}
+                      className="p-1 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
+                      title="Delete Project"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectMenu;
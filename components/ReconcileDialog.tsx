@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ExtractedDataRow, Page, ReconcileColumn, ReconcileStatus, ReferenceTable } from '../types';
+import { buildExportTables } from '../services/exportService';
+import { buildReconciledTable, defaultReconcileColumns, reconcile, RECONCILE_STATUS_LABELS } from '../utils/reconciliation';
+import { downloadExcelReconciliation, readSpreadsheet } from '../utils/fileUtils';
+import { getHeaders } from '../utils/tableUtils';
+import { GitCompareArrows, X, Upload, FileSpreadsheet, Loader2, KeyRound } from 'lucide-react';
+
+interface ReconcileDialogProps {
+  pages: Page[];
+  checkedPageIds: string[];
+  mergeDocuments: boolean;
+  projectName: string;
+  references: ReferenceTable[];
+  onReferencesChange: (references: ReferenceTable[]) => void;
+  onClose: () => void;
+}
+
+const STATUSES: ReconcileStatus[] = ['mismatch', 'scan-only', 'reference-only', 'matched'];
+
+// Rows listed per status; the export always has all of them
+const RESULT_ROWS = 200;
+
+const cellText = (value: ExtractedDataRow[string] | undefined) => value === null || value === undefined ? '' : String(value);
+
+const rowSummary = (row: ExtractedDataRow | null) =>
+  Object.entries(row ?? {}).filter(([, v]) => cellText(v).trim() !== '').map(([k, v]) => `${k}: ${cellText(v)}`).join(' · ');
+
+const ReconcileDialog: React.FC<ReconcileDialogProps> = ({
+  pages, checkedPageIds, mergeDocuments, projectName, references, onReferencesChange, onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [referenceIndex, setReferenceIndex] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [onlySelected, setOnlySelected] = useState(checkedPageIds.length > 0);
+  const [columns, setColumns] = useState<ReconcileColumn[]>([]);
+  const [status, setStatus] = useState<ReconcileStatus>('mismatch');
+
+  const reference: ReferenceTable | undefined = references[referenceIndex];
+
+  // The extracted rows as one table, the same rows the master sheet export would hold
+  const scanRows = useMemo(() => {
+    const scoped = onlySelected ? pages.filter(p => checkedPageIds.includes(p.id)) : pages;
+    return buildExportTables(scoped, 'master', { pageIds: [], mergeDocuments })[0]?.rows ?? [];
+  }, [pages, onlySelected, checkedPageIds.join(','), mergeDocuments]);
+  const scanHeaders = useMemo(() => getHeaders(scanRows), [scanRows]);
+
+  // A new reference or scope re-pairs the columns; keys and pairings still valid are kept
+  useEffect(() => {
+    if (!reference) {
+      setColumns([]);
+      return;
+    }
+    setColumns(prev => defaultReconcileColumns(reference, scanHeaders).map(c => {
+      const kept = prev.find(p => p.reference === c.reference);
+      return kept && (kept.scan === null || scanHeaders.includes(kept.scan)) ? kept : c;
+    }));
+  }, [reference, scanHeaders]);
+
+  const updateColumn = (index: number, patch: Partial<ReconcileColumn>) => {
+    setColumns(prev => prev.map((c, i) => i === index ? { ...c, ...patch } : c));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const sheets = await readSpreadsheet(file);
+      if (sheets.length === 0) {
+        setImportError(`"${file.name}" has no rows.`);
+        return;
+      }
+      // A file imported again replaces its earlier sheets
+      const others = references.filter(r => r.fileName !== file.name);
+      onReferencesChange([...others, ...sheets]);
+      setReferenceIndex(others.length);
+    } catch (err: any) {
+      console.error('Reference import failed:', err);
+      setImportError(`Could not read "${file.name}": ${err.message}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const hasKey = columns.some(c => c.isKey && c.scan);
+  const error = !reference ? 'Import a spreadsheet or CSV to compare against.'
+    : scanRows.length === 0 ? 'No extracted data in this scope.'
+    : !hasKey ? 'Pick at least one key column that is paired with an extracted column.'
+    : null;
+
+  const result = useMemo(
+    () => error || !reference ? [] : reconcile(scanRows, reference, columns),
+    [error, scanRows, reference, columns]
+  );
+  const counts = Object.fromEntries(STATUSES.map(s => [s, result.filter(r => r.status === s).length])) as Record<ReconcileStatus, number>;
+  const shown = result.filter(r => r.status === status);
+
+  const handleExport = () => {
+    if (error || !reference) return;
+    const base = projectName.trim() || 'reconciliation';
+    downloadExcelReconciliation(result, buildReconciledTable(result, reference, columns, scanHeaders), `${base} - reconciled.xlsx`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[85vh] flex flex-col app-card rounded-xl shadow-2xl border app-border overflow-hidden animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b app-border flex justify-between items-center bg-[var(--bg-sidebar)] shrink-0">
+          <h3 className="text-lg font-semibold flex items-center gap-2 app-text">
+            <GitCompareArrows className="w-5 h-5 text-[var(--accent)]" />
+            Reconcile with Reference Data
+          </h3>
+          <button onClick={onClose} className="p-1.5 rounded-full app-text-muted hover:bg-black/5 dark:hover:bg-white/10 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Reference, scope and column pairing */}
+          <div className="w-[26rem] border-r app-border overflow-y-auto p-5 space-y-5 shrink-0">
+            <div className="space-y-2">
+              <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">Reference</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={reference ? referenceIndex : ''}
+                  onChange={(e) => setReferenceIndex(Number(e.target.value))}
+                  disabled={references.length === 0}
+                  className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-[var(--bg-card)] border app-border rounded-md outline-none app-text disabled:opacity-50"
+                >
+                  {references.length === 0 && <option value="">No reference imported</option>}
+                  {references.map((r, i) => (
+                    <option key={`${r.fileName}:${r.sheetName}`} value={i}>{r.fileName} · {r.sheetName}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isImporting}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium border app-border rounded-md app-text hover:bg-black/5 dark:hover:bg-white/10 transition-colors disabled:opacity-50"
+                >
+                  {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  Import
+                </button>
+                <input ref={fileInputRef} type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleImport} />
+              </div>
+              <p className="text-[11px] app-text-muted">
+                {reference ? <>{reference.rows.length} row{reference.rows.length === 1 ? '' : 's'}, {reference.headers.length} column{reference.headers.length === 1 ? '' : 's'}</> : 'Excel workbook or CSV file.'}
+              </p>
+              {importError && <p className="text-xs text-red-500">{importError}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">Extracted rows</label>
+              <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-[var(--bg-main)] border app-border">
+                {[false, true].map(selected => (
+                  <button
+                    key={String(selected)}
+                    onClick={() => setOnlySelected(selected)}
+                    disabled={selected && checkedPageIds.length === 0}
+                    className={`py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-40 ${onlySelected === selected ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                  >
+                    {selected ? 'Selected pages' : 'All pages'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] app-text-muted">
+                {scanRows.length} row{scanRows.length === 1 ? '' : 's'}{mergeDocuments ? ' · pages merged per file' : ''}
+              </p>
+            </div>
+
+            {reference && <div className="space-y-2">
+              <label className="text-xs font-semibold app-text-muted uppercase tracking-wider">Columns</label>
+              <p className="text-[11px] app-text-muted">Rows are matched on the key columns; the other paired columns are compared.</p>
+              {columns.map((c, index) => (
+                <div key={c.reference} className="flex items-center gap-2">
+                  <button
+                    onClick={() => updateColumn(index, { isKey: !c.isKey })}
+                    disabled={!c.scan}
+                    className={`p-1 rounded transition-colors disabled:opacity-30 ${c.isKey && c.scan ? 'text-[var(--accent)]' : 'app-text-muted hover:text-[var(--accent)]'}`}
+                    title={c.isKey ? 'Key column (click to compare instead)' : 'Use as key column'}
+                  >
+                    <KeyRound className="w-3.5 h-3.5" />
+                  </button>
+                  <span className="w-32 truncate text-xs app-text" title={c.reference}>{c.reference}</span>
+                  <select
+                    value={c.scan ?? ''}
+                    onChange={(e) => updateColumn(index, { scan: e.target.value || null })}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm bg-[var(--bg-card)] border app-border rounded-md outline-none app-text"
+                  >
+                    <option value="">Not compared</option>
+                    {scanHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>}
+          </div>
+
+          {/* Differences */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex items-center gap-1 px-5 py-2 border-b app-border">
+              {STATUSES.map(s => (
+                <button
+                  key={s}
+                  onClick={() => setStatus(s)}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${status === s ? 'app-accent text-white' : 'app-text-muted hover:bg-black/5 dark:hover:bg-white/10'}`}
+                >
+                  {RECONCILE_STATUS_LABELS[s]} ({counts[s]})
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-auto bg-[var(--bg-main)]">
+              {error ? (
+                <p className="p-5 text-sm app-text-muted">{error}</p>
+              ) : shown.length === 0 ? (
+                <p className="p-5 text-sm app-text-muted">No rows.</p>
+              ) : status === 'mismatch' ? (
+                <table className="w-full text-xs app-text">
+                  <thead className="sticky top-0 bg-[var(--bg-sidebar)]">
+                    <tr className="text-left app-text-muted">
+                      <th className="px-4 py-2 font-semibold">Key</th>
+                      <th className="px-4 py-2 font-semibold">Column</th>
+                      <th className="px-4 py-2 font-semibold">Scan</th>
+                      <th className="px-4 py-2 font-semibold">Reference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.slice(0, RESULT_ROWS).flatMap((row, r) => row.mismatches.map((m, i) => (
+                      <tr key={`${r}:${m.column}`} className="border-t app-border">
+                        <td className="px-4 py-1.5 font-medium">{i === 0 ? row.key : ''}</td>
+                        <td className="px-4 py-1.5 app-text-muted">{m.column}</td>
+                        <td className="px-4 py-1.5 text-red-500">{cellText(m.scanValue)}</td>
+                        <td className="px-4 py-1.5">{cellText(m.referenceValue)}</td>
+                      </tr>
+                    )))}
+                  </tbody>
+                </table>
+              ) : (
+                <ul className="divide-y divide-[var(--border)] text-xs app-text">
+                  {shown.slice(0, RESULT_ROWS).map((row, r) => (
+                    <li key={r} className="px-4 py-1.5 flex gap-3">
+                      <span className="w-32 shrink-0 font-medium truncate" title={row.key}>{row.key || '(no key)'}</span>
+                      <span className="app-text-muted truncate" title={rowSummary(row.scanRow ?? row.referenceRow)}>{rowSummary(row.scanRow ?? row.referenceRow)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {!error && shown.length > RESULT_ROWS && (
+                <p className="px-4 py-2 text-xs app-text-muted">{shown.length - RESULT_ROWS} more in the export.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t app-border flex justify-end items-center gap-3 shrink-0">
+          <button onClick={onClose} className="px-3 py-1.5 text-sm font-medium app-text-muted hover:app-text transition-colors">
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!!error}
+            className="flex items-center gap-2 px-4 py-1.5 app-accent text-white text-sm font-medium rounded-md transition-colors shadow-sm disabled:opacity-50"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Export Reconciled Excel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReconcileDialog;
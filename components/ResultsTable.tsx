@@ -1,37 +1,101 @@
-import React, { useState, useEffect } from 'react';
-import { ExtractedDataRow } from '../types';
+import React from 'react';
+import { CellProvenance, ColumnType, ExtractedDataRow } from '../types';
+import { LOW_CONFIDENCE_THRESHOLD } from '../constants';
 import { downloadCSV } from '../utils/fileUtils';
-import { Download, Table as TableIcon, ArrowLeft, RefreshCw } from 'lucide-react';
+import { cellKey, getHeaders } from '../utils/tableUtils';
+import { COLUMN_TYPES, detectColumnFormat, inferColumnType, toTableCell } from '../utils/columnTypes';
+import { Download, Table as TableIcon, ArrowLeft, Wand2 } from 'lucide-react';
 
 interface ResultsTableProps {
   data: ExtractedDataRow[];
-  onReset: () => void;
+  editedCells?: string[];
+  provenance?: Record<string, CellProvenance>;
+  selectedCell?: string | null;
+  selectedRow?: number | null;
+  columnTypes?: Record<string, ColumnType>;
+  onChange?: (data: ExtractedDataRow[], editedCells: string[], cell?: string) => void; // `cell` is set for single-cell edits
+  onColumnTypesChange?: (columnTypes: Record<string, ColumnType>) => void;
+  onCellSelect?: (key: string | null) => void;
+  onRowSelect?: (rowIndex: number | null) => void;
+  onRowHover?: (rowIndex: number | null) => void;
+  onReset?: () => void;
+  // Shows a table assembled from several pages (merge-document mode); edits go through its pages
+  readOnly?: boolean;
+  title?: string;
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ data, onReset }) => {
-  const [tableData, setTableData] = useState<ExtractedDataRow[]>(data);
-
-  // Sync local state with props when the selected page changes
-  useEffect(() => {
-    setTableData(data);
-  }, [data]);
-
-  if (tableData.length === 0) {
+const ResultsTable: React.FC<ResultsTableProps> = ({
+  data, editedCells = [], provenance = {}, selectedCell = null, selectedRow = null, columnTypes = {},
+  onChange, onColumnTypesChange, onCellSelect, onRowSelect, onRowHover, onReset, readOnly = false, title = 'Extracted Data'
+}) => {
+  if (data.length === 0) {
     return (
       <div className="text-center py-12">
         <p className="app-text-muted">No data extracted.</p>
-        <button onClick={onReset} className="mt-4 app-accent-text hover:underline">Try Again</button>
+        {onReset && <button onClick={onReset} className="mt-4 app-accent-text hover:underline">Try Again</button>}
       </div>
     );
   }
 
-  // Fix: Explicitly type headers as string[] to prevent 'unknown' inference which causes index errors below
-  const headers: string[] = Array.from(new Set(tableData.flatMap((row: ExtractedDataRow) => Object.keys(row))));
+  const headers = getHeaders(data);
+  const edited = new Set(editedCells);
+  const inferredTypes = Object.fromEntries(headers.map(h => [h, inferColumnType(data.map(row => row[h]))]));
+  const typeOf = (header: string): ColumnType => columnTypes[header] ?? inferredTypes[header];
+  const isNumeric = (header: string) => ['number', 'currency', 'percent'].includes(typeOf(header));
+  // A manual edit supersedes the model's confidence in that cell
+  const isLowConfidence = (key: string) =>
+    !edited.has(key) && (provenance[key]?.confidence ?? 1) < LOW_CONFIDENCE_THRESHOLD;
+  const lowConfidenceCount = Object.keys(provenance).filter(isLowConfidence).length;
+
+  const cellTitle = (key: string) => {
+    if (edited.has(key)) return 'Edited manually';
+    const confidence = provenance[key]?.confidence;
+    return confidence !== undefined ? `Confidence ${Math.round(confidence * 100)}%` : undefined;
+  };
+
+  const cellClass = (key: string) => {
+    if (edited.has(key)) return 'bg-amber-50 dark:bg-amber-900/20';
+    if (isLowConfidence(key)) return 'bg-red-50 dark:bg-red-900/20';
+    return '';
+  };
 
+  // Edits are committed straight to the Page so they survive page switches and reach every export
   const handleCellChange = (rowIndex: number, key: string, value: string) => {
-    const newData = [...tableData];
+    const newData = [...data];
     newData[rowIndex] = { ...newData[rowIndex], [key]: value };
-    setTableData(newData);
+    onChange?.(newData, edited.has(cellKey(rowIndex, key)) ? editedCells : [...editedCells, cellKey(rowIndex, key)], cellKey(rowIndex, key));
+  };
+
+  // Once an edit is finished, store it in the column's canonical form (text that doesn't parse is kept as typed)
+  const handleCellCommit = (rowIndex: number, key: string) => {
+    if (!edited.has(cellKey(rowIndex, key))) return;
+    const value = data[rowIndex][key];
+    const normalized = toTableCell(value, typeOf(key), detectColumnFormat(data.map(row => row[key])));
+    if (normalized === value) return;
+    const newData = [...data];
+    newData[rowIndex] = { ...newData[rowIndex], [key]: normalized };
+    onChange?.(newData, editedCells, cellKey(rowIndex, key));
+  };
+
+  const handleTypeChange = (header: string, type: ColumnType | '') => {
+    const next = { ...columnTypes };
+    if (type) next[header] = type;
+    else delete next[header];
+    onColumnTypesChange?.(next);
+  };
+
+  // Rewrites a whole column as typed values, e.g. "$1,234.50" -> 1234.5, "05/03/24" -> "2024-03-05" and 0.12 -> "12%"
+  const handleNormalizeColumn = (header: string) => {
+    const format = detectColumnFormat(data.map(row => row[header]));
+    const type = typeOf(header);
+    let changed = false;
+    const newData = data.map(row => {
+      const normalized = toTableCell(row[header], type, format);
+      if (normalized === row[header]) return row;
+      changed = true;
+      return { ...row, [header]: normalized };
+    });
+    if (changed) onChange?.(newData, editedCells);
   };
 
   return (
@@ -39,20 +103,32 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, onReset }) => {
       <div className="p-4 border-b app-border flex flex-wrap justify-between items-center gap-4 bg-[var(--bg-sidebar)]">
         <div className="flex items-center gap-2">
             <TableIcon className="w-5 h-5 text-[var(--accent)]" />
-            <h3 className="text-lg font-semibold app-text">Extracted Data</h3>
+            <h3 className="text-lg font-semibold app-text">{title}</h3>
             <span className="text-xs px-2 py-0.5 bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300 rounded-full font-medium">
-                {tableData.length} Rows
+                {data.length} Rows
             </span>
+            {editedCells.length > 0 && (
+              <span className="text-xs px-2 py-0.5 bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300 rounded-full font-medium">
+                  {editedCells.length} Edited
+              </span>
+            )}
+            {lowConfidenceCount > 0 && (
+              <span className="text-xs px-2 py-0.5 bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300 rounded-full font-medium">
+                  {lowConfidenceCount} Low Confidence
+              </span>
+            )}
         </div>
         <div className="flex gap-2">
+            {!readOnly && (
+                <button 
+                    onClick={onReset}
+                    className="flex items-center gap-2 px-3 py-1.5 app-text-muted hover:app-text hover:bg-black/5 dark:hover:bg-white/10 rounded-md transition-colors text-sm font-medium"
+                >
+                    <ArrowLeft className="w-4 h-4" /> Start Over
+                </button>
+            )}
             <button 
-                onClick={onReset}
-                className="flex items-center gap-2 px-3 py-1.5 app-text-muted hover:app-text hover:bg-black/5 dark:hover:bg-white/10 rounded-md transition-colors text-sm font-medium"
-            >
-                <ArrowLeft className="w-4 h-4" /> Start Over
-            </button>
-            <button 
-                onClick={() => downloadCSV(tableData)}
+                onClick={() => downloadCSV(data, undefined, columnTypes)}
                 className="flex items-center gap-2 px-4 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-md transition-colors shadow-sm"
             >
                 <Download className="w-4 h-4" /> Export CSV
@@ -67,26 +143,70 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, onReset }) => {
                     <th className="p-3 font-semibold border-b border-r app-border w-12 text-center">#</th>
                     {headers.map(header => (
                         <th key={header} className="p-3 font-semibold border-b border-r app-border min-w-[150px]">
-                            {header}
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="truncate">{header}</span>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <select
+                                        value={columnTypes[header] ?? ''}
+                                        onChange={(e) => handleTypeChange(header, e.target.value as ColumnType | '')}
+                                        disabled={readOnly}
+                                        className="text-xs font-normal bg-transparent border app-border rounded px-1 py-0.5 app-text-muted outline-none focus:border-[var(--accent)]"
+                                        title="Column type used for exports"
+                                    >
+                                        <option value="">Auto ({inferredTypes[header]})</option>
+                                        {COLUMN_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    {!readOnly && typeOf(header) !== 'text' && (
+                                        <button
+                                            onClick={() => handleNormalizeColumn(header)}
+                                            className="p-1 rounded hover:bg-black/5 dark:hover:bg-white/10 hover:text-[var(--accent)] transition-colors"
+                                            title={`Normalize values as ${typeOf(header)}`}
+                                        >
+                                            <Wand2 className="w-3.5 h-3.5" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
                         </th>
                     ))}
                 </tr>
             </thead>
             <tbody className="divide-y app-border">
-                {tableData.map((row, rIndex) => (
-                    <tr key={rIndex} className="hover:bg-black/5 dark:hover:bg-white/5 transition-colors group">
-                        <td className="p-2 text-center app-text-muted border-r app-border select-none">
+                {data.map((row, rIndex) => (
+                    <tr
+                        key={rIndex}
+                        className={`hover:bg-black/5 dark:hover:bg-white/5 transition-colors group ${selectedRow === rIndex ? 'bg-black/5 dark:bg-white/5' : ''}`}
+                        onMouseEnter={() => onRowHover?.(rIndex)}
+                        onMouseLeave={() => onRowHover?.(null)}
+                    >
+                        <td
+                            className={`p-2 text-center border-r app-border select-none cursor-pointer ${selectedRow === rIndex ? 'app-accent-text font-semibold' : 'app-text-muted'}`}
+                            onClick={() => onRowSelect?.(selectedRow === rIndex ? null : rIndex)}
+                            title="Select row"
+                        >
                             {rIndex + 1}
                         </td>
                         {headers.map((header: string, cIndex) => (
-                            <td key={`${rIndex}-${cIndex}`} className="p-0 border-r app-border relative">
+                            <td
+                                key={`${rIndex}-${cIndex}`}
+                                className={`p-0 border-r app-border relative ${cellClass(cellKey(rIndex, header))} ${
+                                    selectedCell === cellKey(rIndex, header) ? 'ring-2 ring-inset ring-[var(--accent)]' : ''
+                                }`}
+                                title={cellTitle(cellKey(rIndex, header))}
+                            >
                                 <input
                                     type="text"
-                                    className="w-full h-full p-3 bg-transparent border-none outline-none focus:ring-2 focus:ring-inset focus:ring-[var(--accent)] transition-all app-text"
+                                    className={`w-full h-full p-3 bg-transparent border-none outline-none focus:ring-2 focus:ring-inset focus:ring-[var(--accent)] transition-all app-text ${isNumeric(header) ? 'text-right tabular-nums' : ''}`}
                                     // Fix: Ensuring header is treated as a string to resolve index type error for ExtractedDataRow
                                     value={String(row[header] ?? '')}
+                                    readOnly={readOnly}
                                     // Fix: Ensuring header is treated as a string to match the signature of handleCellChange
                                     onChange={(e) => handleCellChange(rIndex, header, e.target.value)}
+                                    onBlur={() => handleCellCommit(rIndex, header)}
+                                    onFocus={() => {
+                                        onCellSelect?.(cellKey(rIndex, header));
+                                        onRowSelect?.(rIndex);
+                                    }}
                                 />
                             </td>
                         ))}
@@ -96,7 +216,9 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ data, onReset }) => {
         </table>
       </div>
       <div className="p-2 bg-[var(--bg-sidebar)] border-t app-border text-xs text-center app-text-muted">
-        Tip: You can edit the cells before exporting.
+        {readOnly
+          ? 'Merged from several pages as exported. Edit cells on their own page.'
+          : 'Tip: Edits are saved to the page and included in every export.'}
       </div>
     </div>
   );
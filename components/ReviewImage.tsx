@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox } from '../types';
+import { ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+
+interface ReviewImageProps {
+  image: string;
+  rowBox?: BoundingBox | null; // Soft highlight of the hovered/selected row
+  cellBox?: BoundingBox | null; // Strong highlight of the focused cell
+  label?: string;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.25;
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+// Zoom/pan viewer for the page image; scrolls the highlighted region into view as it changes
+const ReviewImage: React.FC<ReviewImageProps> = ({ image, rowBox, cellBox, label }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+
+  const focusBox = cellBox || rowBox;
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !focusBox) return;
+    const { scrollWidth, scrollHeight, clientWidth, clientHeight } = viewport;
+    viewport.scrollTo({
+      left: (focusBox.x + focusBox.width / 2) * scrollWidth - clientWidth / 2,
+      top: (focusBox.y + focusBox.height / 2) * scrollHeight - clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [focusBox?.x, focusBox?.y, focusBox?.width, focusBox?.height, zoom]);
+
+  const changeZoom = (next: number) => setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next)));
+
+  // Plain wheel scrolls; ctrl/cmd + wheel (and trackpad pinch) zooms. Registered natively
+  // because React's wheel listener is passive and can't stop the browser's page zoom.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      setZoom(z => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, e.deltaY < 0 ? z * ZOOM_STEP : z / ZOOM_STEP)));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const viewport = viewportRef.current;
+    if (!viewport || zoom === MIN_ZOOM) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, left: viewport.scrollLeft, top: viewport.scrollTop };
+    viewport.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const viewport = viewportRef.current;
+    const drag = dragRef.current;
+    if (!viewport || !drag) return;
+    viewport.scrollLeft = drag.left - (e.clientX - drag.x);
+    viewport.scrollTop = drag.top - (e.clientY - drag.y);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="relative h-full flex flex-col">
+      <div
+        ref={viewportRef}
+        className={`flex-1 overflow-auto bg-black/5 dark:bg-black/20 ${zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div className="relative select-none" style={{ width: `${zoom * 100}%` }}>
+          <img src={image} className="block w-full h-auto pointer-events-none" draggable={false} />
+          {rowBox && (
+            <div
+              className="absolute bg-[var(--accent)]/10 border border-[var(--accent)]/40 pointer-events-none transition-all duration-200"
+              style={boxStyle(rowBox)}
+            />
+          )}
+          {cellBox && (
+            <div
+              className="absolute border-2 border-[var(--accent)] bg-[var(--accent)]/20 rounded-sm pointer-events-none transition-all duration-200"
+              style={boxStyle(cellBox)}
+            >
+              {label && (
+                <span className="absolute -top-5 left-0 px-1.5 text-[10px] font-medium text-white bg-[var(--accent)] rounded whitespace-nowrap">
+                  {label}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="absolute bottom-3 right-3 flex items-center gap-1 bg-[var(--bg-card)] border app-border rounded-full shadow-md p-0.5">
+        <button onClick={() => changeZoom(zoom / ZOOM_STEP)} className="p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted" title="Zoom Out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="text-[11px] font-medium app-text-muted w-10 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => changeZoom(zoom * ZOOM_STEP)} className="p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted" title="Zoom In">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => setZoom(MIN_ZOOM)} className="p-1.5 rounded-full hover:bg-black/5 dark:hover:bg-white/10 app-text-muted" title="Fit to Width">
+          <Maximize className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewImage;
@@ -0,0 +1,49 @@
+import React, { useRef, useState } from 'react';
+
+interface SplitPaneProps {
+  left: React.ReactNode;
+  right: React.ReactNode;
+  initialRatio?: number; // Share of the width given to the left pane (0..1)
+  minRatio?: number;
+}
+
+// Two panes side by side with a draggable divider
+const SplitPane: React.FC<SplitPaneProps> = ({ left, right, initialRatio = 0.5, minRatio = 0.2 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [ratio, setRatio] = useState(initialRatio);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const container = containerRef.current;
+    if (!isDragging || !container) return;
+    const rect = container.getBoundingClientRect();
+    const next = (e.clientX - rect.left) / rect.width;
+    setRatio(Math.min(1 - minRatio, Math.max(minRatio, next)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`flex h-full w-full overflow-hidden ${isDragging ? 'select-none cursor-col-resize' : ''}`}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setIsDragging(false)}
+      onPointerLeave={() => setIsDragging(false)}
+    >
+      <div className="h-full overflow-hidden" style={{ width: `${ratio * 100}%` }}>
+        {left}
+      </div>
+      <div
+        className="w-2 shrink-0 flex items-center justify-center cursor-col-resize group"
+        onPointerDown={(e) => { e.preventDefault(); setIsDragging(true); }}
+        title="Drag to resize"
+      >
+        <div className={`w-0.5 h-12 rounded-full transition-colors ${isDragging ? 'bg-[var(--accent)]' : 'bg-[var(--border)] group-hover:bg-[var(--accent)]'}`} />
+      </div>
+      <div className="h-full flex-1 overflow-hidden">
+        {right}
+      </div>
+    </div>
+  );
+};
+
+export default SplitPane;
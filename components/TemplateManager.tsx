@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { ExtractionTemplate, TemplateField, TemplateFieldType } from '../types';
+import { createTemplateId, toFieldKey } from '../services/templateService';
+import { LayoutTemplate, Plus, Trash2, X, Save, Copy } from 'lucide-react';
+
+interface TemplateManagerProps {
+  templates: ExtractionTemplate[];
+  onSave: (template: ExtractionTemplate) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const FIELD_TYPES: TemplateFieldType[] = ['string', 'number', 'date', 'currency', 'boolean'];
+
+const emptyField = (): TemplateField => ({ key: '', type: 'string', required: false, description: '' });
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<ExtractionTemplate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const startNew = () => {
+    setError(null);
+    setDraft({ id: createTemplateId(), name: 'New Template', fields: [emptyField()] });
+  };
+
+  const startEdit = (template: ExtractionTemplate) => {
+    setError(null);
+    // Built-in templates are read-only; editing one forks a user copy
+    setDraft(template.builtIn
+      ? { id: createTemplateId(), name: `${template.name} (copy)`, fields: template.fields.map(f => ({ ...f })) }
+      : { ...template, fields: template.fields.map(f => ({ ...f })) });
+  };
+
+  const updateField = (index: number, patch: Partial<TemplateField>) => {
+    if (!draft) return;
+    const fields = [...draft.fields];
+    fields[index] = { ...fields[index], ...patch };
+    setDraft({ ...draft, fields });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const fields = draft.fields
+      .map(f => ({ ...f, key: toFieldKey(f.key) }))
+      .filter(f => f.key);
+    const keys = fields.map(f => f.key);
+
+    if (!draft.name.trim()) return setError('Template name is required.');
+    if (fields.length === 0) return setError('Add at least one field.');
+    if (new Set(keys).size !== keys.length) return setError('Field names must be unique.');
+
+    try {
+      await onSave({ ...draft, name: draft.name.trim(), fields });
+      setDraft(null);
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      setError(`The template could not be saved${err instanceof Error ? `: ${err.message}` : '.'}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await onDelete(id);
+      setDeleteError(null);
+      if (draft?.id === id) setDraft(null);
+    } catch (err) {
+      console.error('Failed to delete template:', err);
+      setDeleteError(`The template could not be deleted${err instanceof Error ? `: ${err.message}` : '.'}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[85vh] flex flex-col app-card rounded-xl shadow-2xl border app-border overflow-hidden animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b app-border flex justify-between items-center bg-[var(--bg-sidebar)] shrink-0">
+          <h3 className="text-lg font-semibold flex items-center gap-2 app-text">
+            <LayoutTemplate className="w-5 h-5 text-[var(--accent)]" />
+            Extraction Templates
+          </h3>
+          <button onClick={onClose} className="p-1.5 rounded-full app-text-muted hover:bg-black/5 dark:hover:bg-white/10 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Template List */}
+          <div className="w-60 border-r app-border overflow-y-auto shrink-0">
+            <button
+              onClick={startNew}
+              className="w-full text-left px-4 py-3 text-sm flex items-center gap-2 app-accent-text font-medium border-b app-border hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> New Template
+            </button>
+            {templates.map(t => (
+              <div
+                key={t.id}
+                className={`flex items-center gap-2 px-4 py-2 border-b app-border text-sm cursor-pointer transition-colors ${
+                  draft?.id === t.id ? 'bg-black/5 dark:bg-white/10' : 'hover:bg-black/5 dark:hover:bg-white/10'
+                }`}
+                onClick={() => startEdit(t)}
+              >
+                <div className="flex-1 overflow-hidden">
+                  <span className="block truncate font-medium app-text">{t.name}</span>
+                  <span className="block text-[11px] app-text-muted">
+                    {t.fields.length} fields{t.builtIn ? ' · built-in' : ''}
+                  </span>
+                </div>
+                {t.builtIn ? (
+                  <Copy className="w-3.5 h-3.5 app-text-muted" />
+                ) : (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(t.id); }}
+                    className="p-1 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
+                    title="Delete Template"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {deleteError && <p className="px-4 py-2 text-xs text-red-500">{deleteError}</p>}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {!draft ? (
+              <div className="h-full flex items-center justify-center text-sm app-text-muted text-center px-8">
+                Pick a template to edit, or create a new one. Templates fix the output columns and their types, so
+                the same layout always produces the same table.
+              </div>
+            ) : (
+              <div className="space-y-5">
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="w-full px-3 py-2 text-base font-semibold bg-transparent border app-border rounded-md outline-none focus:border-[var(--accent)] app-text"
+                  placeholder="Template name"
+                />
+
+                <table className="w-full text-sm text-left border-collapse">
+                  <thead className="app-text-muted text-xs uppercase tracking-wider">
+                    <tr>
+                      <th className="pb-2 font-semibold">Field</th>
+                      <th className="pb-2 font-semibold w-32">Type</th>
+                      <th className="pb-2 font-semibold w-20 text-center">Required</th>
+                      <th className="pb-2 font-semibold">Description</th>
+                      <th className="pb-2 w-8"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.fields.map((field, index) => (
+                      <tr key={index}>
+                        <td className="py-1 pr-2">
+                          <input
+                            value={field.key}
+                            onChange={(e) => updateField(index, { key: e.target.value })}
+                            onBlur={(e) => updateField(index, { key: toFieldKey(e.target.value) })}
+                            className="w-full px-2 py-1.5 bg-transparent border app-border rounded-md outline-none focus:border-[var(--accent)] app-text"
+                            placeholder="column_name"
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <select
+                            value={field.type}
+                            onChange={(e) => updateField(index, { type: e.target.value as TemplateFieldType })}
+                            className="w-full px-2 py-1.5 bg-[var(--bg-card)] border app-border rounded-md outline-none app-text"
+                          >
+                            {FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                          </select>
+                        </td>
+                        <td className="py-1 pr-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={field.required}
+                            onChange={(e) => updateField(index, { required: e.target.checked })}
+                            style={{ accentColor: 'var(--accent)' }}
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <input
+                            value={field.description}
+                            onChange={(e) => updateField(index, { description: e.target.value })}
+                            className="w-full px-2 py-1.5 bg-transparent border app-border rounded-md outline-none focus:border-[var(--accent)] app-text"
+                            placeholder="What the model should put here"
+                          />
+                        </td>
+                        <td className="py-1">
+                          <button
+                            onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) })}
+                            className="p-1 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
+                            title="Remove Field"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setDraft({ ...draft, fields: [...draft.fields, emptyField()] })}
+                    className="flex items-center gap-1 text-xs font-medium app-text-muted hover:text-[var(--accent)] transition-colors"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> Add Field
+                  </button>
+                  <div className="flex items-center gap-3">
+                    {error && <span className="text-xs text-red-500">{error}</span>}
+                    <button
+                      onClick={handleSave}
+                      className="flex items-center gap-2 px-4 py-1.5 app-accent text-white text-sm font-medium rounded-md transition-colors shadow-sm"
+                    >
+                      <Save className="w-4 h-4" /> Save Template
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -1,12 +1,139 @@
+import { ExtractionTemplate, ImageProcessingSettings, PdfImportOptions, PresetSettings, ProcessingPreset } from './types';
+
 export const APP_NAME = "VisionToData";
 export const MAX_IMAGE_SIZE_MB = 10;
-export const SUPPORTED_FILE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+// PDFs and multi-page TIFFs hold whole documents
+export const MAX_DOCUMENT_SIZE_MB = 100;
+// Checked against the type read from the file's first bytes; TIFF, HEIC and BMP are converted on import
+export const SUPPORTED_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'image/heic', 'image/bmp'];
+// For the file picker: browsers often give HEIC and TIFF files no type, so extensions are listed too
+export const FILE_INPUT_ACCEPT = [...SUPPORTED_FILE_TYPES, '.pdf', '.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff', '.heic', '.heif', '.bmp'].join(',');
 
-// Default processing settings simulating basic OpenCV pre-processing
-export const DEFAULT_SETTINGS = {
+// Filter defaults shared by DEFAULT_SETTINGS and the built-in presets
+const DEFAULT_FILTERS: PresetSettings = {
   brightness: 0,
   contrast: 0,
-  threshold: 0,
+  binarization: 'off',
+  threshold: 128,
+  adaptiveWindow: 25,
+  meanOffset: 10,
+  sauvolaK: 0.2,
+  medianRadius: 0,
+  sharpen: 0,
+  flattenBackground: false,
   grayscale: false,
+};
+
+// Default processing settings simulating basic OpenCV pre-processing
+export const DEFAULT_SETTINGS: ImageProcessingSettings = {
+  ...DEFAULT_FILTERS,
   rotation: 0,
-};
\ No newline at end of file
+  corners: null,
+  skewAngle: 0,
+};
+
+// Built-in pre-processing presets; user presets are stored in IndexedDB like templates
+export const BUILT_IN_PRESETS: ProcessingPreset[] = [
+  { id: 'builtin-original', name: 'Original', builtIn: true, settings: DEFAULT_FILTERS },
+  {
+    id: 'builtin-clean-scan',
+    name: 'Clean Scan',
+    builtIn: true,
+    settings: { ...DEFAULT_FILTERS, binarization: 'otsu', medianRadius: 1 },
+  },
+  {
+    id: 'builtin-phone-photo',
+    name: 'Phone Photo',
+    builtIn: true,
+    settings: { ...DEFAULT_FILTERS, flattenBackground: true, sharpen: 30, binarization: 'sauvola' },
+  },
+  {
+    id: 'builtin-faded-print',
+    name: 'Faded Print',
+    builtIn: true,
+    settings: { ...DEFAULT_FILTERS, grayscale: true, contrast: 40, sharpen: 50 },
+  },
+];
+
+// Edge detection runs on a downscaled copy; skew estimation searches up to this tilt either way
+export const EDGE_DETECTION_SIZE = 400;
+export const SKEW_ESTIMATION_SIZE = 1000;
+export const MAX_SKEW_ANGLE = 15;
+// Longest side of the live preview in the pre-processor, and while a slider is being dragged
+export const PREVIEW_MAX_SIZE = 1600;
+export const DRAG_PREVIEW_SIZE = 800;
+// Pages the pipeline client assumes its worker still has decoded (the worker keeps a few more)
+export const PIPELINE_RECENT_SOURCES = 4;
+// Full renders that aren't binarized are stored as JPEG at this quality
+export const PIPELINE_JPEG_QUALITY = 0.92;
+
+// Extraction backend used when EXTRACTION_PROVIDER is not set in the environment
+export const DEFAULT_EXTRACTION_PROVIDER = 'gemini';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+// Pixel budget for an image sent to the model when MAX_IMAGE_MEGAPIXELS is not set; about A4 at 200 DPI.
+// Models downsample larger images themselves, so the extra pixels only cost upload time.
+export const DEFAULT_MAX_IMAGE_MEGAPIXELS = 4;
+export const PAYLOAD_JPEG_QUALITY = 0.85;
+// Simulated round-trip of the mock provider so loading states remain visible in demos
+export const MOCK_LATENCY_MS = 400;
+
+// Project persistence (IndexedDB)
+export const DB_NAME = 'smart-document-digitizer';
+export const DB_VERSION = 3;
+export const AUTOSAVE_DELAY_MS = 1000;
+// Older projects are evicted once usage passes this fraction of the browser quota
+export const STORAGE_QUOTA_RATIO = 0.8;
+export const DEFAULT_PROJECT_NAME = 'Untitled Project';
+
+// Built-in extraction templates; user templates are stored alongside projects in IndexedDB
+export const BUILT_IN_TEMPLATES: ExtractionTemplate[] = [
+  {
+    id: 'builtin-invoice',
+    name: 'Invoice Line Items',
+    builtIn: true,
+    fields: [
+      { key: 'description', type: 'string', required: true, description: 'Item or service description' },
+      { key: 'quantity', type: 'number', required: false, description: 'Quantity or hours billed' },
+      { key: 'unit_price', type: 'currency', required: false, description: 'Price per unit' },
+      { key: 'amount', type: 'currency', required: true, description: 'Line total' },
+    ],
+  },
+  {
+    id: 'builtin-timesheet',
+    name: 'Timesheet',
+    builtIn: true,
+    fields: [
+      { key: 'employee', type: 'string', required: true, description: 'Employee name' },
+      { key: 'date', type: 'date', required: true, description: 'Day worked' },
+      { key: 'hours', type: 'number', required: true, description: 'Hours worked that day' },
+      { key: 'project', type: 'string', required: false, description: 'Project or cost code' },
+    ],
+  },
+];
+
+// Cells below this confidence are flagged for review in the results table
+export const LOW_CONFIDENCE_THRESHOLD = 0.75;
+
+// Batch extraction queue
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_RETRIES = 4;
+// Dense pages can be extracted as overlapping horizontal strips; 1 sends the whole page
+export const STRIP_COUNT_CHOICES = [1, 2, 3, 4];
+export const STRIP_OVERLAP = 0.15; // Share of a strip's height it has in common with the next
+export const RETRY_BASE_DELAY_MS = 2000;
+export const RETRY_MAX_DELAY_MS = 30000;
+
+// Undo steps kept per session; each holds references to page objects, not copies
+export const MAX_HISTORY_ENTRIES = 100;
+
+// PDF import: pages are rasterized at this resolution unless the import options say otherwise
+export const PDF_DPI_CHOICES = [72, 108, 144, 200, 300];
+export const DEFAULT_PDF_IMPORT_OPTIONS: PdfImportOptions = { dpi: 144, pageRange: '', imageFormat: 'jpeg', useTextLayer: true };
+export const PDF_JPEG_QUALITY = 0.9;
+// A PDF page with fewer characters of real text than this is treated as a scan
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+// Searchable PDF export. Page size comes from the DPI a PDF page was rendered at; images and
+// pages imported before it was recorded are taken to be at the default import resolution
+export const SEARCHABLE_PDF_DPI = 144;
+export const ARCHIVE_JPEG_QUALITY = 0.9;
@@ -0,0 +1,76 @@
+import { ArchiveFormatId, Page } from "../types";
+import { ARCHIVE_JPEG_QUALITY, SEARCHABLE_PDF_DPI } from "../constants";
+import { buildTextLayer, TextLayerPage } from "../utils/textLayer";
+import { buildAlto, buildHocr, buildSearchablePdf, PdfPageImage } from "../utils/ocrFormats";
+import { downloadBlob, downloadTextFile } from "../utils/fileUtils";
+
+export const ARCHIVE_FORMATS: { id: ArchiveFormatId; label: string; extension: string; mimeType: string }[] = [
+  { id: 'pdf', label: 'Searchable PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  { id: 'hocr', label: 'hOCR', extension: 'hocr', mimeType: 'text/html' },
+  { id: 'alto', label: 'ALTO XML', extension: 'xml', mimeType: 'application/xml' },
+];
+
+export interface ArchiveSummary {
+  pages: number;
+  words: number;
+  unplaced: number; // Cells left out of the text layer for lack of a position
+}
+
+const decode = async (dataUrl: string) => createImageBitmap(await (await fetch(dataUrl)).blob());
+
+/**
+ * The image the archive shows for a page, and the settings that map the extracted cell
+ * positions onto it. Pages pre-processed before settings were kept can only use the processed
+ * image, since the model's positions can't be traced back to the scan.
+ */
+const archiveSource = (page: Page) => {
+  if (page.processingSettings) return { image: page.originalImage, settings: page.processingSettings };
+  return { image: page.processedImage || page.originalImage, settings: undefined };
+};
+
+// Re-encoded through a canvas so every page is a baseline RGB JPEG, whatever was uploaded
+const toJpeg = async (bitmap: ImageBitmap): Promise<Uint8Array> => {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: ARCHIVE_JPEG_QUALITY });
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+/**
+ * Rebuilds the pages as an archive: the scans with an invisible, searchable text layer placed
+ * from the extracted cell positions (PDF), or the positioned text alone (hOCR, ALTO).
+ * Pages without extracted data are included as images only.
+ */
+export const exportArchive = async (pages: Page[], formatId: ArchiveFormatId, filename: string): Promise<ArchiveSummary> => {
+  const format = ARCHIVE_FORMATS.find(f => f.id === formatId)!;
+  const layers: TextLayerPage[] = [];
+  const images: PdfPageImage[] = [];
+
+  for (const page of pages) {
+    const { image, settings } = archiveSource(page);
+    const bitmap = await decode(image);
+    try {
+      layers.push(buildTextLayer(page, { width: bitmap.width, height: bitmap.height }, settings));
+      if (formatId === 'pdf') images.push({ jpeg: await toJpeg(bitmap), width: bitmap.width, height: bitmap.height, dpi: page.renderDpi ?? SEARCHABLE_PDF_DPI });
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  const names = pages.map(p => p.name);
+  const file = `${filename}.${format.extension}`;
+  if (formatId === 'pdf') {
+    downloadBlob(new Blob([buildSearchablePdf(layers, images)], { type: format.mimeType }), file);
+  } else {
+    downloadTextFile(formatId === 'hocr' ? buildHocr(layers, names) : buildAlto(layers, names), file, format.mimeType);
+  }
+
+  return {
+    pages: layers.length,
+    words: layers.reduce((sum, l) => sum + l.words.length, 0),
+    unplaced: layers.reduce((sum, l) => sum + l.unplaced, 0),
+  };
+};
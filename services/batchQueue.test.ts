@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isAbortError, isRetryableError, runWithConcurrency, withRetry } from "./batchQueue";
+
+const failure = (message: string, fields: Record<string, unknown> = {}) => Object.assign(new Error(message), fields);
+
+describe("isAbortError", () => {
+  it("recognizes aborts from the DOM and from SDKs", () => {
+    expect(isAbortError(new DOMException('Stopped', 'AbortError'))).toBe(true);
+    expect(isAbortError(failure('Stopped', { name: 'AbortError' }))).toBe(true);
+  });
+
+  it("rejects other errors and values that aren't errors", () => {
+    expect(isAbortError(new Error('AbortError'))).toBe(false);
+    expect(isAbortError('AbortError')).toBe(false);
+    expect(isAbortError(null)).toBe(false);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits and server errors from the status or code field", () => {
+    expect(isRetryableError(failure('Too many requests', { status: 429 }))).toBe(true);
+    expect(isRetryableError(failure('Unavailable', { code: 503 }))).toBe(true);
+  });
+
+  it("doesn't retry bad requests or auth errors", () => {
+    expect(isRetryableError(failure('Bad request', { status: 400 }))).toBe(false);
+    expect(isRetryableError(failure('Forbidden', { code: 403 }))).toBe(false);
+  });
+
+  it("ignores status-like numbers in the message", () => {
+    expect(isRetryableError(new Error('Row 500 has 429 cells'))).toBe(false);
+    expect(isRetryableError(failure('Failed', { code: 'ECONNRESET' }))).toBe(false);
+  });
+
+  it("retries dropped connections but not aborts", () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new DOMException('Stopped', 'AbortError'))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("retries a retryable failure and reports each attempt", async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const task = vi.fn()
+      .mockRejectedValueOnce(failure('Too many requests', { status: 429 }))
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(task, { onRetry })).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, 0, expect.any(Error));
+  });
+
+  it("gives up at once on an error that isn't retryable", async () => {
+    const task = vi.fn().mockRejectedValue(failure('Bad request', { status: 400 }));
+
+    await expect(withRetry(task)).rejects.toThrow('Bad request');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runWithConcurrency", () => {
+  it("runs every item with no more than the given number at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runWithConcurrency([1, 2, 3, 4, 5], async item => {
+      peak = Math.max(peak, ++running);
+      await Promise.resolve();
+      done.push(item);
+      running--;
+    }, 2);
+
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+});
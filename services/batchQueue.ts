@@ -0,0 +1,83 @@
+import { RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS, MAX_RETRIES } from "../constants";
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && 'name' in error && error.name === 'AbortError';
+
+const abortError = () => new DOMException('Extraction cancelled', 'AbortError');
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// HTTP status of a provider error, from the `status` (or `code`) field SDK and fetch errors carry.
+// The message isn't searched: any figure in it, like "row 500", would pass for a status
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (typeof error !== 'object' || error === null) return undefined;
+  const fields = ['status' in error ? error.status : undefined, 'code' in error ? error.code : undefined];
+  return fields.find((value): value is number => typeof value === 'number' && value >= 100 && value < 600);
+};
+
+// Rate limits and server-side failures are worth another attempt; bad requests and auth errors are not
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  // fetch() rejects with a TypeError on dropped connections
+  return error instanceof TypeError;
+};
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+/**
+ * Runs `task` and retries retryable failures with exponential backoff and full jitter.
+ * Aborting the signal stops both the running attempt and any pending wait.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, { signal, retries = MAX_RETRIES, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+      const delayMs = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+      onRetry?.(attempt + 1, delayMs, error);
+      await abortableDelay(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Feeds `items` to `worker` with at most `concurrency` in flight. Stops picking up new
+ * items once the signal is aborted; items already running are expected to honour it themselves.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
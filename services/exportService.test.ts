@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { ExportTable } from "../types";
+import { applyColumnMapping, defaultColumnMapping } from "./exportService";
+
+const tables: ExportTable[] = [
+  {
+    name: 'Page 1', sourceFiles: ['a.pdf'], pageNumbers: [1],
+    columns: ['Date', 'Amount', 'Notes'],
+    columnTypes: { Date: 'date', Amount: 'currency', Notes: 'text' },
+    rows: [{ Date: '2024-01-02', Amount: 5, Notes: 'late' }],
+  },
+  {
+    name: 'Page 2', sourceFiles: ['a.pdf'], pageNumbers: [2],
+    columns: ['Amount', 'Vendor'],
+    columnTypes: { Amount: 'currency', Vendor: 'text' },
+    rows: [{ Amount: 7 }],
+  },
+];
+
+describe("defaultColumnMapping", () => {
+  it("includes every column once, under its own name", () => {
+    expect(defaultColumnMapping(tables)).toEqual(['Date', 'Amount', 'Notes', 'Vendor'].map(c => ({ source: c, name: c, include: true })));
+  });
+});
+
+describe("applyColumnMapping", () => {
+  it("renames, reorders and drops columns, keeping their types", () => {
+    const [first, second] = applyColumnMapping(tables, [
+      { source: 'Amount', name: ' Total "USD" ', include: true },
+      { source: 'Date', name: 'Paid On', include: true },
+      { source: 'Notes', name: 'Notes', include: false },
+      { source: 'Vendor', name: '   ', include: true },
+    ]);
+
+    expect(first.columns).toEqual(['Total "USD"', 'Paid On']);
+    expect(first.columnTypes).toEqual({ 'Total "USD"': 'currency', 'Paid On': 'date' });
+    expect(first.rows).toEqual([{ 'Total "USD"': 5, 'Paid On': '2024-01-02' }]);
+    // Columns a table doesn't have are left out of it
+    expect(second.columns).toEqual(['Total "USD"']);
+    expect(second.rows).toEqual([{ 'Total "USD"': 7 }]);
+  });
+
+  it("fills cells missing from a row with null", () => {
+    const [, second] = applyColumnMapping(tables, [{ source: 'Vendor', name: 'Vendor', include: true }]);
+    expect(second.rows).toEqual([{ Vendor: null }]);
+  });
+});
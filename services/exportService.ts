@@ -0,0 +1,89 @@
+import { ColumnMapping, ColumnType, ExportFormat, ExportFormatId, ExportOptions, ExportScope, ExportTable, ExtractedDataRow, Page } from "../types";
+import { resolveColumnTypes } from "../utils/columnTypes";
+import { getHeaders } from "../utils/tableUtils";
+import { getSourceFile, stitchDocuments } from "../utils/tableStitching";
+import { downloadTextFile } from "../utils/fileUtils";
+import { htmlFormat, jsonFormat, markdownFormat, ndjsonFormat, sqlFormat } from "../utils/exportFormats";
+
+const formats = new Map<ExportFormatId, ExportFormat>();
+
+export const registerExportFormat = (format: ExportFormat) => {
+  formats.set(format.id, format);
+};
+
+[jsonFormat, ndjsonFormat, sqlFormat, markdownFormat, htmlFormat].forEach(registerExportFormat);
+
+export const listExportFormats = (): ExportFormat[] => Array.from(formats.values());
+
+export const getExportFormat = (id: ExportFormatId): ExportFormat => {
+  const format = formats.get(id);
+  if (!format) throw new Error(`Unknown export format "${id}"`);
+  return format;
+};
+
+const toTable = (
+  name: string, sourceFiles: string[], pageNumbers: number[], rows: ExtractedDataRow[], overrides: Record<string, ColumnType> = {}
+): ExportTable => ({
+  name,
+  sourceFiles,
+  pageNumbers,
+  columns: getHeaders(rows),
+  columnTypes: resolveColumnTypes(rows, overrides),
+  rows,
+});
+
+/**
+ * The tables a scope covers. "page" and "selection" give a table per page, or per stitched
+ * document in merge-document mode; "master" combines every page into one table, like the
+ * master sheet of the Excel export.
+ */
+export const buildExportTables = (
+  pages: Page[],
+  scope: ExportScope,
+  { pageIds, mergeDocuments }: { pageIds: string[]; mergeDocuments: boolean }
+): ExportTable[] => {
+  const pageNumber = (id: string) => pages.findIndex(p => p.id === id) + 1;
+  const inScope = scope === 'master' ? pages : pages.filter(p => pageIds.includes(p.id));
+
+  if (mergeDocuments) {
+    const documents = stitchDocuments(inScope)
+      .filter(t => t.rows.length > 0)
+      .map(t => toTable(t.sourceFile, [t.sourceFile], t.pageIds.map(pageNumber), t.rows, t.columnTypes));
+    if (scope !== 'master' || documents.length === 0) return documents;
+    const rows = documents.flatMap(t => t.rows.map(row => ({ "Source File": t.name, ...row })));
+    return [toTable('Master Data', documents.map(t => t.name), documents.flatMap(t => t.pageNumbers), rows, Object.assign({}, ...documents.map(t => t.columnTypes)))];
+  }
+
+  const extracted = inScope.filter(p => p.extractedData && p.extractedData.length > 0);
+  if (scope !== 'master') {
+    return extracted.map(p => toTable(p.name, [getSourceFile(p)], [pageNumber(p.id)], p.extractedData!, p.columnTypes));
+  }
+  if (extracted.length === 0) return [];
+  const rows = extracted.flatMap(p => p.extractedData!.map(row => ({ "Page Number": pageNumber(p.id), "Source File": p.name, ...row })));
+  // Overrides apply per column name, so the master table honours every page's choices
+  const overrides = Object.assign({}, ...extracted.map(p => p.columnTypes));
+  return [toTable('Master Data', Array.from(new Set(extracted.map(getSourceFile))), extracted.map(p => pageNumber(p.id)), rows, overrides)];
+};
+
+// Every column of the tables, in first-seen order, exported under its own name
+export const defaultColumnMapping = (tables: ExportTable[]): ColumnMapping[] =>
+  Array.from(new Set(tables.flatMap(t => t.columns))).map(source => ({ source, name: source, include: true }));
+
+// Renames, drops and reorders columns; a column missing from the mapping is left out
+export const applyColumnMapping = (tables: ExportTable[], mapping: ColumnMapping[]): ExportTable[] => {
+  const included = mapping.filter(m => m.include && m.name.trim());
+  return tables.map(table => {
+    const columns = included.filter(m => table.columns.includes(m.source));
+    return {
+      ...table,
+      columns: columns.map(m => m.name.trim()),
+      columnTypes: Object.fromEntries(columns.map(m => [m.name.trim(), table.columnTypes[m.source]])),
+      rows: table.rows.map(row => Object.fromEntries(columns.map(m => [m.name.trim(), row[m.source] ?? null]))),
+    };
+  });
+};
+
+export const exportTables = (tables: ExportTable[], formatId: ExportFormatId, options: ExportOptions, filename: string) => {
+  const format = getExportFormat(formatId);
+  downloadTextFile(format.serialize(tables, options), `${filename}.${format.extension}`, format.mimeType);
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { ExtractionProvider } from "../types";
+import { DEFAULT_EXTRACTION_PROVIDER } from "../constants";
+import { extractTable, getActiveProvider, getProvider, listProviders, registerProvider } from "./extractionService";
+import { PreparedImage } from "./payloadService";
+
+const image: PreparedImage = {
+  dataUrl: 'data:image/png;base64,AAAA', mimeType: 'image/png', bytes: 3, sourceBytes: 300, width: 20, height: 10,
+};
+
+describe("provider registry", () => {
+  it("registers the built-in providers", () => {
+    expect(listProviders().map(p => p.id)).toEqual(expect.arrayContaining(['gemini', 'openai', 'mock']));
+    expect(getProvider('mock').label).toBe('Local Mock');
+  });
+
+  it("rejects an unknown provider id", () => {
+    expect(() => getProvider('nope' as ExtractionProvider['id'])).toThrow('Unknown extraction provider "nope"');
+  });
+
+  it("falls back to the default provider when none is configured", () => {
+    expect(getActiveProvider().id).toBe(DEFAULT_EXTRACTION_PROVIDER);
+  });
+
+  it("replaces a provider registered again under the same id", () => {
+    const replacement: ExtractionProvider = { id: 'openai', label: 'Replacement', extract: vi.fn() };
+    registerProvider(replacement);
+    expect(getProvider('openai')).toBe(replacement);
+    expect(listProviders().filter(p => p.id === 'openai')).toHaveLength(1);
+  });
+});
+
+describe("extractTable", () => {
+  it("sends the prepared image to the active provider and records the request cost", async () => {
+    const extract = vi.fn().mockResolvedValue({ rows: [{ a: 1 }], usage: { inputTokens: 10, outputTokens: 5 } });
+    registerProvider({ id: DEFAULT_EXTRACTION_PROVIDER as ExtractionProvider['id'], label: 'Fake', extract });
+    const options = { withProvenance: true };
+
+    const result = await extractTable(image, options);
+
+    expect(extract).toHaveBeenCalledWith(image.dataUrl, options);
+    expect(result.rows).toEqual([{ a: 1 }]);
+    expect(result.cost).toEqual({
+      imageBytes: 3, sourceBytes: 300, width: 20, height: 10, usage: { inputTokens: 10, outputTokens: 5 },
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { ExtractionOptions, ExtractionProvider, ExtractionProviderId, ExtractionResult } from "../types";
+import { DEFAULT_EXTRACTION_PROVIDER } from "../constants";
+import { geminiProvider } from "./geminiService";
+import { openAiProvider } from "./openAiService";
+import { mockProvider } from "./mockService";
+import { PreparedImage } from "./payloadService";
+
+const providers = new Map<ExtractionProviderId, ExtractionProvider>();
+
+export const registerProvider = (provider: ExtractionProvider) => {
+  providers.set(provider.id, provider);
+};
+
+[geminiProvider, openAiProvider, mockProvider].forEach(registerProvider);
+
+export const listProviders = (): ExtractionProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: ExtractionProviderId): ExtractionProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown extraction provider "${id}"`);
+  return provider;
+};
+
+/**
+ * Resolves the backend configured through EXTRACTION_PROVIDER, so switching vendors
+ * (or going fully offline with "mock") is an environment change rather than a code change.
+ */
+export const getActiveProvider = (): ExtractionProvider => {
+  const id = (process.env.EXTRACTION_PROVIDER || DEFAULT_EXTRACTION_PROVIDER) as ExtractionProviderId;
+  return getProvider(id);
+};
+
+/**
+ * Sends a page image, already fitted into the pixel budget by `prepareImage`, to the active
+ * provider and records what the request cost alongside the rows. Preparing is left to the
+ * caller so retries resend the same payload instead of encoding it again.
+ */
+export const extractTable = async (image: PreparedImage, options?: ExtractionOptions): Promise<ExtractionResult> => {
+  const result = await getActiveProvider().extract(image.dataUrl, options);
+  return {
+    ...result,
+    cost: { imageBytes: image.bytes, sourceBytes: image.sourceBytes, width: image.width, height: image.height, usage: result.usage },
+  };
+};
@@ -1,17 +1,22 @@
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { ExtractedDataRow } from "../types";
+import { ExtractedDataRow, ExtractionOptions, ExtractionProvider, ExtractionResult } from "../types";
+import { buildExtractionPrompt, toExtractionResult } from "./prompts";
+import { buildGeminiSchema } from "./templateService";
+import { parseDataUrl } from "./payloadService";
 
 export const extractDataFromImage = async (base64Image: string): Promise<ExtractedDataRow[]> => {
   // We use the generic extractor as default now
-  return extractGenericTable(base64Image);
+  const { rows } = await extractGenericTable(base64Image);
+  return rows;
 };
 
-export const extractGenericTable = async (base64Image: string): Promise<ExtractedDataRow[]> => {
+export const extractGenericTable = async (base64Image: string, options: ExtractionOptions = {}): Promise<ExtractionResult> => {
     if (!process.env.API_KEY) throw new Error("API Key missing");
   
     // Create a new GoogleGenAI instance right before the call to ensure fresh configuration
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+    const { mimeType, data } = parseDataUrl(base64Image);
+    const { template, withProvenance, signal } = options;
   
     try {
       // Using gemini-3-pro-preview for complex reasoning tasks like structured table and handwriting extraction
@@ -19,30 +24,36 @@ export const extractGenericTable = async (base64Image: string): Promise<Extracte
         model: "gemini-3-pro-preview",
         contents: {
           parts: [
-            { inlineData: { mimeType: "image/png", data: cleanBase64 } },
+            { inlineData: { mimeType, data } },
             { 
-              text: `Extract the data from this image into a JSON array of objects.
-              
-              STRICT SCHEMA RULES:
-              1. Tables: Use the visual column headers as JSON keys. Convert them to lower_snake_case (e.g., "First Name" -> "first_name").
-              2. Forms/Key-Value Lists: strictly use keys "field" and "value".
-              3. IDs: Do NOT generate artificial columns like "row_id", "id", or "row_number" unless that text explicitly appears in the document header row.
-              4. Consistency: If the extracted data looks like a table, ensure all objects in the array have the same keys.
-              
-              Return ONLY the JSON array.` 
+              text: buildExtractionPrompt(options)
             }
           ]
         },
         config: {
-          responseMimeType: "application/json"
+          responseMimeType: "application/json",
+          abortSignal: signal,
+          // A template pins the output columns through a response schema instead of letting the model guess
+          ...(template ? { responseSchema: buildGeminiSchema(template, withProvenance) } : {})
         }
       });
 
       // Directly access the .text property from GenerateContentResponse as per SDK guidelines
       if (!response.text) throw new Error("Empty response from Gemini");
-      return JSON.parse(response.text);
+      const usage = response.usageMetadata;
+      return {
+        ...toExtractionResult(response.text, options),
+        // Thinking tokens are billed as output
+        usage: usage ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) } : undefined,
+      };
     } catch (e) {
       console.error("Extraction error", e);
       throw e;
     }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  extract: extractGenericTable,
+};
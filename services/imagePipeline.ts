@@ -0,0 +1,182 @@
+import { ImageProcessingSettings } from "../types";
+import { PIPELINE_RECENT_SOURCES } from "../constants";
+import { DetectedGeometry } from "../utils/imagePipeline";
+
+/**
+ * Client for the image pipeline worker. Pages are decoded once in the worker and then referred
+ * to by key, so moving a slider only sends the settings across.
+ */
+
+interface SourceRef {
+  sourceKey: number;
+  source?: string; // Data URL, only sent the first time the worker needs it
+}
+
+type RequestBody =
+  | { type: 'render'; settings: ImageProcessingSettings; maxSize?: number; autoGeometry?: boolean; output: 'bitmap' | 'blob' }
+  | { type: 'detect'; rotation: number };
+
+export type PipelineRequest = SourceRef & { id: number } & RequestBody;
+
+export interface PipelineResponse {
+  id: number;
+  bitmap?: ImageBitmap;
+  blob?: Blob;
+  settings?: ImageProcessingSettings; // Settings the full render used, including detected geometry
+  geometry?: DetectedGeometry;
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+let nextSourceKey = 0;
+const pending = new Map<number, { resolve: (response: PipelineResponse) => void; reject: (error: Error) => void }>();
+const recentSources: { source: string; key: number }[] = [];
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./imagePipeline.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if (event.data.error) request.reject(new Error(event.data.error));
+    else request.resolve(event.data);
+  };
+  worker.onerror = (event) => {
+    // A crashed worker loses its decoded pages; the next call starts a fresh one
+    pending.forEach(request => request.reject(new Error(event.message || 'Image processing failed.')));
+    pending.clear();
+    recentSources.length = 0;
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const sourceRef = (source: string): SourceRef => {
+  const index = recentSources.findIndex(entry => entry.source === source);
+  if (index >= 0) {
+    const [entry] = recentSources.splice(index, 1);
+    recentSources.push(entry);
+    return { sourceKey: entry.key };
+  }
+  const entry = { source, key: nextSourceKey++ };
+  recentSources.push(entry);
+  if (recentSources.length > PIPELINE_RECENT_SOURCES) recentSources.shift();
+  return { sourceKey: entry.key, source };
+};
+
+const call = (source: string, body: RequestBody): Promise<PipelineResponse> => {
+  const target = getWorker();
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, {
+      resolve,
+      reject: error => {
+        // The worker drops a page it failed to decode, so it must be sent in full next time
+        const index = recentSources.findIndex(entry => entry.source === source);
+        if (index >= 0) recentSources.splice(index, 1);
+        reject(error);
+      },
+    });
+    target.postMessage({ id, ...sourceRef(source), ...body } as PipelineRequest);
+  });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const detectPageGeometry = async (source: string, rotation: number): Promise<DetectedGeometry> => {
+  const { geometry } = await call(source, { type: 'detect', rotation });
+  return geometry!;
+};
+
+// Scaled-down render for display; the bitmap is transferred, not copied
+export const renderPreview = async (source: string, settings: ImageProcessingSettings, maxSize: number): Promise<ImageBitmap> => {
+  const { bitmap } = await call(source, { type: 'render', settings, maxSize, output: 'bitmap' });
+  return bitmap!;
+};
+
+/**
+ * Full-resolution render as a data URL (PNG when binarized, JPEG otherwise), with the settings it
+ * was rendered with. With `autoGeometry` the document edges and skew are detected for this page
+ * instead of taken from `settings`.
+ */
+export const renderImage = async (
+  source: string,
+  settings: ImageProcessingSettings,
+  autoGeometry = false
+): Promise<{ image: string; settings: ImageProcessingSettings }> => {
+  const response = await call(source, { type: 'render', settings, autoGeometry, output: 'blob' });
+  return { image: await blobToDataUrl(response.blob!), settings: response.settings! };
+};
+
+/**
+ * Preview renderer that drops stale work: while one preview is rendering only the most
+ * recent request waits, and the requests it replaced resolve to null.
+ */
+export const createPreviewRenderer = () => {
+  let running = false;
+  let queued: { source: string; settings: ImageProcessingSettings; maxSize: number; resolve: (b: ImageBitmap | null) => void; reject: (e: unknown) => void } | null = null;
+
+  const drain = async () => {
+    running = true;
+    while (queued) {
+      const job = queued;
+      queued = null;
+      try {
+        job.resolve(await renderPreview(job.source, job.settings, job.maxSize));
+      } catch (error) {
+        job.reject(error);
+      }
+    }
+    running = false;
+  };
+
+  return (source: string, settings: ImageProcessingSettings, maxSize: number): Promise<ImageBitmap | null> => {
+    return new Promise((resolve, reject) => {
+      queued?.resolve(null);
+      queued = { source, settings, maxSize, resolve, reject };
+      if (!running) drain();
+    });
+  };
+};
+
+export interface ImageJob {
+  id: string;
+  image: string;
+  settings: ImageProcessingSettings;
+  autoGeometry?: boolean;
+}
+
+interface ProcessImagesOptions {
+  signal?: AbortSignal;
+  onResult?: (id: string, image: string, settings: ImageProcessingSettings) => void;
+  onError?: (id: string, error: unknown) => void;
+}
+
+/**
+ * Headless batch: renders many pages one after another, reporting each result as it is
+ * ready. A page that fails is reported and the batch goes on. Once the signal is aborted no
+ * further page starts, and the one rendering is discarded.
+ */
+export const processImages = async (jobs: ImageJob[], { signal, onResult, onError }: ProcessImagesOptions = {}): Promise<void> => {
+  for (const job of jobs) {
+    if (signal?.aborted) return;
+    try {
+      const { image, settings } = await renderImage(job.image, job.settings, job.autoGeometry);
+      if (signal?.aborted) return;
+      onResult?.(job.id, image, settings);
+    } catch (error) {
+      if (signal?.aborted) return;
+      onError?.(job.id, error);
+    }
+  }
+};
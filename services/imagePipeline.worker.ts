@@ -0,0 +1,61 @@
+import { ImageProcessingSettings } from "../types";
+import { PIPELINE_JPEG_QUALITY, PIPELINE_RECENT_SOURCES } from "../constants";
+import { detectGeometry, renderPage } from "../utils/imagePipeline";
+import type { PipelineRequest, PipelineResponse } from "./imagePipeline";
+
+// Decoded pages by key, least recently used first
+const sources = new Map<number, Promise<ImageBitmap>>();
+const SOURCE_CACHE_SIZE = PIPELINE_RECENT_SOURCES + 2;
+
+const decode = async (dataUrl: string) => createImageBitmap(await (await fetch(dataUrl)).blob());
+
+// Must stay synchronous so cache order follows message order, which the client relies on
+const getSource = ({ sourceKey, source }: PipelineRequest): Promise<ImageBitmap> => {
+  const cached = sources.get(sourceKey);
+  sources.delete(sourceKey);
+  const bitmap = cached ?? (source ? decode(source) : Promise.reject(new Error('Page image is no longer available.')));
+  sources.set(sourceKey, bitmap);
+  // A failed decode isn't cached; the client sends the page again next time
+  bitmap.catch(() => {
+    if (sources.get(sourceKey) === bitmap) sources.delete(sourceKey);
+  });
+
+  if (sources.size > SOURCE_CACHE_SIZE) {
+    const [oldestKey, oldest] = sources.entries().next().value!;
+    sources.delete(oldestKey);
+    oldest.then(b => b.close(), () => {});
+  }
+  return bitmap;
+};
+
+// Binarized pages are two-tone and stay crisp and small as PNG; photos and grey scans would bloat, so they go as JPEG
+const encode = (canvas: OffscreenCanvas, settings: ImageProcessingSettings): Promise<Blob> =>
+  settings.binarization === 'off'
+    ? canvas.convertToBlob({ type: 'image/jpeg', quality: PIPELINE_JPEG_QUALITY })
+    : canvas.convertToBlob({ type: 'image/png' });
+
+const post = (response: PipelineResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+  try {
+    const source = await getSource(request);
+    if (request.type === 'detect') {
+      post({ id: request.id, geometry: detectGeometry(source, request.rotation) });
+      return;
+    }
+
+    const settings = request.autoGeometry
+      ? { ...request.settings, ...detectGeometry(source, request.settings.rotation) }
+      : request.settings;
+    const canvas = renderPage(source, settings, request.maxSize);
+    if (request.output === 'bitmap') {
+      const bitmap = canvas.transferToImageBitmap();
+      post({ id: request.id, bitmap }, [bitmap]);
+    } else {
+      post({ id: request.id, blob: await encode(canvas, settings), settings });
+    }
+  } catch (error) {
+    post({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
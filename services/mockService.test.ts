@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ExtractedDataRow } from "../types";
+import { MOCK_LATENCY_MS } from "../constants";
+import fixtures from "./fixtures/mockExtraction.json";
+import { extractWithMock, mockProvider } from "./mockService";
+
+const PAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+// Resolves the mock's simulated latency without waiting for it
+const extract = async (...args: Parameters<typeof extractWithMock>) => {
+  const pending = extractWithMock(...args);
+  await vi.advanceTimersByTimeAsync(MOCK_LATENCY_MS);
+  return pending;
+};
+
+describe("mock provider", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("is registered under the mock id", () => {
+    expect(mockProvider.id).toBe('mock');
+    expect(mockProvider.extract).toBe(extractWithMock);
+  });
+
+  it("replays one of the fixture tables, the same one for the same image", async () => {
+    const first = await extract(PAGE);
+    const second = await extract(PAGE);
+
+    expect(fixtures as ExtractedDataRow[][]).toContainEqual(first.rows);
+    expect(second.rows).toEqual(first.rows);
+  });
+
+  it("hands out copies, so edits don't reach the fixture", async () => {
+    const first = await extract(PAGE);
+    first.rows[0][Object.keys(first.rows[0])[0]] = 'edited';
+
+    const second = await extract(PAGE);
+    expect(second.rows[0][Object.keys(second.rows[0])[0]]).not.toBe('edited');
+  });
+
+  it("adds a box and confidence to every cell when provenance is requested", async () => {
+    const { rows, provenance } = await extract(PAGE, { withProvenance: true });
+
+    const cells = rows.flatMap(row => Object.keys(row));
+    expect(Object.keys(provenance ?? {})).toHaveLength(cells.length);
+    Object.values(provenance ?? {}).forEach(entry => {
+      expect(entry.confidence).toBeGreaterThanOrEqual(0);
+      expect(entry.confidence).toBeLessThanOrEqual(1);
+      expect(entry.box).toBeDefined();
+    });
+  });
+
+  it("stops when the request is aborted", async () => {
+    const controller = new AbortController();
+    const pending = extractWithMock(PAGE, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,71 @@
+import { ExtractionOptions, ExtractionProvider, ExtractionResult } from "../types";
+import { DEFAULT_OPENAI_MODEL } from "../constants";
+import { buildExtractionPrompt, toExtractionResult } from "./prompts";
+import { buildJsonSchema } from "./templateService";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Extracts a table through any OpenAI-compatible `/chat/completions` endpoint
+ * (OpenAI, Azure, vLLM, Ollama, LM Studio...). The base URL, key and model come from the environment.
+ */
+export const extractWithOpenAi = async (base64Image: string, options: ExtractionOptions = {}): Promise<ExtractionResult> => {
+    const baseUrl = process.env.OPENAI_BASE_URL;
+    if (!baseUrl) throw new Error("OpenAI-compatible endpoint URL missing");
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (process.env.OPENAI_API_KEY) headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+
+    const { template, withProvenance, signal } = options;
+    const prompt = buildExtractionPrompt(options);
+
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+          response_format: template
+            ? { type: "json_schema", json_schema: { name: "extracted_rows", strict: true, schema: buildJsonSchema(template, withProvenance) } }
+            : { type: "json_object" },
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "image_url", image_url: { url: base64Image } },
+                { type: "text", text: `${prompt}\nWrap the array in an object under the key "data".` }
+              ]
+            }
+          ]
+        })
+      });
+
+      if (!response.ok) {
+        // Keep the status on the error so the batch queue can tell rate limits from bad requests
+        throw Object.assign(new Error(`Extraction endpoint returned ${response.status} ${response.statusText}`), { status: response.status });
+      }
+
+      const body: ChatCompletionResponse = await response.json();
+      const content = body.choices?.[0]?.message?.content;
+      if (!content) throw new Error("Empty response from extraction endpoint");
+
+      // json_object mode forces an object at the top level; the validator unwraps the "data" envelope
+      return {
+        ...toExtractionResult(content, options),
+        usage: body.usage ? { inputTokens: body.usage.prompt_tokens ?? 0, outputTokens: body.usage.completion_tokens ?? 0 } : undefined,
+      };
+    } catch (e) {
+      console.error("Extraction error", e);
+      throw e;
+    }
+};
+
+export const openAiProvider: ExtractionProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  extract: extractWithOpenAi,
+};
@@ -0,0 +1,193 @@
+import { ExtractedDataRow } from "../types";
+
+/**
+ * Thrown when a model response cannot be turned into rows. `issues` lists every problem found
+ * so the page can show a readable reason instead of a raw SyntaxError.
+ */
+export class ExtractionOutputError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Model output could not be read: ${issues.join('; ')}`);
+    this.name = 'ExtractionOutputError';
+    this.issues = issues;
+  }
+}
+
+export interface ParsedOutput {
+  rows: Record<string, unknown>[];
+  warnings: string[];
+}
+
+// Keys models commonly wrap the row array in
+const ENVELOPE_KEYS = ['data', 'rows', 'items', 'records', 'results', 'table', 'entries', 'values'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stripCodeFences = (text: string) => {
+  const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+  return fenced ? fenced[1].trim() : text.trim();
+};
+
+/**
+ * Salvages output cut off mid-stream (token limit): keeps everything up to the last
+ * array element that closed cleanly and closes the brackets still open at that point.
+ */
+const repairTruncatedJson = (text: string): string | null => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let cut: { index: number; open: string[] } | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') stack.push(ch);
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      // A value just finished directly inside an array: a safe place to cut
+      if (stack[stack.length - 1] === '[') cut = { index: i + 1, open: [...stack] };
+    }
+  }
+
+  if (!cut) return null;
+  const closers = cut.open.reverse().map(ch => (ch === '[' ? ']' : '}')).join('');
+  return text.slice(0, cut.index) + closers;
+};
+
+const parseJson = (text: string, warnings: string[]): unknown => {
+  const attempts: [string, string | null][] = [[text, null]];
+  if (text.includes('```')) attempts.push([stripCodeFences(text), 'Removed markdown code fences around the JSON.']);
+
+  // Prose before/after the payload: take the outermost array or object
+  const start = text.search(/[\[{]/);
+  const end = Math.max(text.lastIndexOf(']'), text.lastIndexOf('}'));
+  if (start >= 0 && end > start) attempts.push([text.slice(start, end + 1), 'Ignored text around the JSON payload.']);
+
+  for (const [candidate, note] of attempts) {
+    try {
+      const value = JSON.parse(candidate);
+      if (note) warnings.push(note);
+      return value;
+    } catch {
+      // try the next candidate
+    }
+  }
+
+  const body = stripCodeFences(text);
+  const bodyStart = body.search(/[\[{]/);
+  const repaired = bodyStart >= 0 ? repairTruncatedJson(body.slice(bodyStart)) : null;
+  if (repaired) {
+    try {
+      const value = JSON.parse(repaired);
+      warnings.push('The response was truncated; incomplete trailing rows were dropped.');
+      return value;
+    } catch {
+      // fall through to the error below
+    }
+  }
+
+  throw new ExtractionOutputError(['response is not valid JSON and could not be repaired']);
+};
+
+// Finds the row array inside `{ "data": [...] }`-style wrappers
+const unwrapEnvelope = (value: unknown, warnings: string[]): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (!isPlainObject(value)) {
+    throw new ExtractionOutputError([`expected a JSON array of rows but got ${value === null ? 'null' : typeof value}`]);
+  }
+
+  const envelopeKey = ENVELOPE_KEYS.find(k => Array.isArray(value[k]));
+  if (envelopeKey) return unwrapEnvelope(value[envelopeKey], warnings);
+
+  const arrays = Object.values(value).filter(Array.isArray);
+  if (arrays.length === 1) return arrays[0];
+
+  // A single record (e.g. a form) returned as a bare object
+  warnings.push('Expected a list of rows; treated the single object as one row.');
+  return [value];
+};
+
+const toScalar = (value: unknown): ExtractedDataRow[string] => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (Array.isArray(value) && value.every(v => !isPlainObject(v) && !Array.isArray(v))) {
+    return value.map(v => String(v ?? '')).join('; ');
+  }
+  return JSON.stringify(value);
+};
+
+// Cell envelope from provenance mode; only its `value` is normalized
+const isCellEnvelope = (value: unknown): value is Record<string, unknown> =>
+  isPlainObject(value) && 'value' in value && ('confidence' in value || 'box' in value);
+
+const flattenRow = (
+  source: Record<string, unknown>,
+  keepCellEnvelopes: boolean,
+  target: Record<string, unknown> = {},
+  prefix = ''
+): Record<string, unknown> => {
+  Object.entries(source).forEach(([key, value]) => {
+    const column = prefix ? `${prefix}_${key}` : key;
+    if (keepCellEnvelopes && isCellEnvelope(value)) {
+      target[column] = { ...value, value: toScalar(value.value) };
+    } else if (isPlainObject(value)) {
+      flattenRow(value, keepCellEnvelopes, target, column);
+    } else {
+      target[column] = toScalar(value);
+    }
+  });
+  return target;
+};
+
+const toRow = (item: unknown, header: string[] | null, keepCellEnvelopes: boolean): Record<string, unknown> | null => {
+  if (isPlainObject(item)) return flattenRow(item, keepCellEnvelopes);
+  if (Array.isArray(item)) {
+    const columns = header ?? item.map((_, i) => `column_${i + 1}`);
+    return Object.fromEntries(item.map((cell, i) => [columns[i] ?? `column_${i + 1}`, toScalar(cell)]));
+  }
+  if (item === null || item === undefined) return null;
+  return { value: toScalar(item) };
+};
+
+/**
+ * Turns raw model text into flat rows: strips fences and prose, repairs truncation,
+ * unwraps envelopes, flattens nested objects and coerces every cell to a scalar.
+ */
+export const parseModelOutput = (text: string, { keepCellEnvelopes = false } = {}): ParsedOutput => {
+  const warnings: string[] = [];
+  if (!text.trim()) throw new ExtractionOutputError(['the response was empty']);
+
+  const items = unwrapEnvelope(parseJson(text, warnings), warnings);
+
+  // Array-of-arrays tables: a first row made only of strings is the header
+  let header: string[] | null = null;
+  let body = items;
+  if (items.length > 1 && items.every(Array.isArray) && (items[0] as unknown[]).every(c => typeof c === 'string')) {
+    header = items[0] as string[];
+    body = items.slice(1);
+  }
+
+  let skipped = 0;
+  const rows = body.flatMap(item => {
+    const row = toRow(item, header, keepCellEnvelopes);
+    if (!row || Object.keys(row).length === 0) {
+      skipped++;
+      return [];
+    }
+    return [row];
+  });
+
+  if (skipped > 0) warnings.push(`Skipped ${skipped} empty or unreadable row${skipped === 1 ? '' : 's'}.`);
+  if (rows.length === 0 && body.length > 0) throw new ExtractionOutputError(['no usable rows in the response']);
+
+  return { rows, warnings };
+};
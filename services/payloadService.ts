@@ -0,0 +1,85 @@
+import { DEFAULT_MAX_IMAGE_MEGAPIXELS, PAYLOAD_JPEG_QUALITY } from "../constants";
+import { detectFileFormat, FORMAT_MIME_TYPES } from "../utils/imageDecoders";
+
+// Prepares page images for the extraction request: real MIME type, bounded size, smallest encoding
+
+// Types every supported provider accepts inline; anything else is re-encoded
+const MODEL_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const MAX_IMAGE_PIXELS = (Number(process.env.MAX_IMAGE_MEGAPIXELS) || DEFAULT_MAX_IMAGE_MEGAPIXELS) * 1_000_000;
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+  bytes: number; // Decoded size of the image as sent
+  sourceBytes: number; // Decoded size of the page image it was made from
+  width: number;
+  height: number;
+}
+
+/**
+ * Splits a data URL into its declared type and base64 payload. The declared type is only as
+ * good as whoever built the URL; `prepareImage` checks it against the bytes.
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = /^data:([^;,]+)?(?:;[^;,]+)*?;base64,/.exec(dataUrl);
+  if (!match) throw new Error("Page image is not a base64 data URL");
+  return { mimeType: match[1] || 'application/octet-stream', data: dataUrl.slice(match[0].length) };
+};
+
+// Bytes the base64 text decodes to, without decoding it
+export const base64Bytes = (data: string): number =>
+  Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+/**
+ * Fits a page image into the pixel budget and picks the smallest encoding. Pages come from PDF
+ * rendering, the pre-processing pipeline and uploads, so the type is read from the bytes rather
+ * than trusted from the URL. Downscaling keeps the aspect ratio; a page already within budget
+ * in a type the models accept is only re-encoded when that makes it smaller. JPEG suits photos
+ * and grey scans, PNG keeps binarized pages crisp and is often smaller for them, so a PNG
+ * source is tried both ways.
+ */
+export const prepareImage = async (dataUrl: string, maxPixels = MAX_IMAGE_PIXELS): Promise<PreparedImage> => {
+  const parsed = parseDataUrl(dataUrl);
+  const blob = await (await fetch(dataUrl)).blob();
+  const format = await detectFileFormat(blob);
+  const source = { ...parsed, mimeType: format ? FORMAT_MIME_TYPES[format] : parsed.mimeType };
+  const sourceBytes = base64Bytes(source.data);
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const scale = Math.min(1, Math.sqrt(maxPixels / (bitmap.width * bitmap.height)));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const candidates: { blob: Blob | null; dataUrl?: string }[] = [];
+    if (scale === 1 && MODEL_IMAGE_TYPES.includes(source.mimeType)) {
+      candidates.push({ blob: null, dataUrl: `data:${source.mimeType};base64,${source.data}` });
+    }
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+    // JPEG has no alpha; transparent areas would turn black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    candidates.push({ blob: await canvas.convertToBlob({ type: 'image/jpeg', quality: PAYLOAD_JPEG_QUALITY }) });
+    if (source.mimeType === 'image/png') candidates.push({ blob: await canvas.convertToBlob({ type: 'image/png' }) });
+
+    const size = (c: typeof candidates[number]) => c.blob ? c.blob.size : sourceBytes;
+    const best = candidates.reduce((a, b) => size(b) < size(a) ? b : a);
+    const bestUrl = best.dataUrl ?? await blobToDataUrl(best.blob!);
+    return { dataUrl: bestUrl, mimeType: parseDataUrl(bestUrl).mimeType, bytes: size(best), sourceBytes, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
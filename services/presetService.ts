@@ -0,0 +1,34 @@
+import { FilterRunResult, ImageProcessingSettings, PresetSettings, ProcessingPreset } from "../types";
+
+export const createPresetId = () => `preset-${Math.random().toString(36).substr(2, 9)}`;
+
+// Drops the page-specific orientation and geometry so the preset fits any page
+export const toPresetSettings = ({ corners, skewAngle, rotation, ...filters }: ImageProcessingSettings): PresetSettings => filters;
+
+// Presets saved before rotation was left out still carry one; it must not turn the pages
+export const presetFilters = (settings: PresetSettings): PresetSettings => {
+  const { rotation, ...filters } = settings as PresetSettings & { rotation?: number };
+  return filters;
+};
+
+// Preset filters on top of a page's own rotation, corners and skew
+export const applyPreset = (preset: ProcessingPreset, settings: ImageProcessingSettings): ImageProcessingSettings => ({
+  ...settings,
+  ...presetFilters(preset.settings),
+});
+
+// The preset whose filters the settings currently match, if any
+export const findMatchingPreset = (presets: ProcessingPreset[], settings: ImageProcessingSettings): ProcessingPreset | undefined =>
+  presets.find(preset =>
+    (Object.entries(presetFilters(preset.settings)) as [keyof PresetSettings, unknown][]).every(([key, value]) => value === settings[key])
+  );
+
+const pages = (count: number) => `${count} page${count === 1 ? '' : 's'}`;
+
+// One-line summary of a filter run, for the pre-processor and the page list
+export const describeFilterRun = ({ applied, failed, skipped, cancelled }: FilterRunResult): string => [
+  `Applied to ${pages(applied)}`,
+  failed ? `${pages(failed)} could not be processed` : '',
+  skipped ? `${skipped} already extracted or in progress left unchanged` : '',
+  cancelled ? 'the rest were cancelled' : '',
+].filter(Boolean).join('; ') + '.';
@@ -0,0 +1,32 @@
+import { ExtractedDataRow, ExtractionOptions, ExtractionResult } from "../types";
+import { buildTemplatePrompt, conformToTemplate } from "./templateService";
+import { PROVENANCE_INSTRUCTIONS, splitProvenance } from "./provenanceService";
+import { parseModelOutput } from "./outputValidation";
+
+// Instructions shared by every vision backend so column naming stays identical across providers
+export const TABLE_EXTRACTION_PROMPT = `Extract the data from this image into a JSON array of objects.
+
+STRICT SCHEMA RULES:
+1. Tables: Use the visual column headers as JSON keys. Convert them to lower_snake_case (e.g., "First Name" -> "first_name").
+2. Forms/Key-Value Lists: strictly use keys "field" and "value".
+3. IDs: Do NOT generate artificial columns like "row_id", "id", or "row_number" unless that text explicitly appears in the document header row.
+4. Consistency: If the extracted data looks like a table, ensure all objects in the array have the same keys.
+
+Return ONLY the JSON array.`;
+
+// Full prompt for a request: template columns when one is set, what the image is, plus provenance instructions if asked for
+export const buildExtractionPrompt = ({ template, withProvenance, context }: ExtractionOptions) =>
+  (template ? buildTemplatePrompt(template) : TABLE_EXTRACTION_PROMPT)
+  + (context ? `\n\nIMAGE: ${context}` : '')
+  + (withProvenance ? PROVENANCE_INSTRUCTIONS : '');
+
+// Shared post-processing of the raw model text for every provider: validate/repair, split provenance, apply template
+export const toExtractionResult = (text: string, { template, withProvenance }: ExtractionOptions): ExtractionResult => {
+  const { rows: rawRows, warnings } = parseModelOutput(text, { keepCellEnvelopes: withProvenance });
+  const result: ExtractionResult = withProvenance ? splitProvenance(rawRows) : { rows: rawRows as ExtractedDataRow[] };
+  return {
+    ...result,
+    rows: template ? conformToTemplate(result.rows, template) : result.rows,
+    warnings,
+  };
+};
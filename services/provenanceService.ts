@@ -0,0 +1,77 @@
+import { Schema, Type } from "@google/genai";
+import { BoundingBox, CellProvenance, ExtractedDataRow, ExtractionResult } from "../types";
+import { cellKey } from "../utils/tableUtils";
+
+// Appended to the extraction prompt when provenance is requested
+export const PROVENANCE_INSTRUCTIONS = `
+PROVENANCE: Instead of a plain value, write every cell as an object
+{"value": <the cell value>, "confidence": <0 to 1, how certain the reading is>, "box": [ymin, xmin, ymax, xmax]}
+where "box" encloses the cell's text on the image, with coordinates normalized to 0-1000.
+Use a low confidence for smudged, handwritten or partially visible values.`;
+
+// Boxes arrive in the 0-1000 [ymin, xmin, ymax, xmax] convention vision models are trained on
+const BOX_SCALE = 1000;
+
+export const wrapGeminiCellSchema = (valueSchema: Schema): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    value: valueSchema,
+    confidence: { type: Type.NUMBER },
+    box: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+  },
+  required: ['value', 'confidence', 'box'],
+  propertyOrdering: ['value', 'confidence', 'box'],
+});
+
+export const wrapJsonCellSchema = (valueSchema: Record<string, unknown>) => ({
+  type: 'object',
+  properties: {
+    value: valueSchema,
+    confidence: { type: 'number' },
+    box: { type: 'array', items: { type: 'number' } },
+  },
+  required: ['value', 'confidence', 'box'],
+  additionalProperties: false,
+});
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+const toBoundingBox = (box: unknown): BoundingBox | undefined => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number' && isFinite(n))) return undefined;
+  const [ymin, xmin, ymax, xmax] = box.map(n => clamp01(n / BOX_SCALE));
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+const toConfidence = (confidence: unknown): number | undefined => {
+  if (typeof confidence !== 'number' || !isFinite(confidence)) return undefined;
+  // Some models answer in percent despite the instructions
+  return clamp01(confidence > 1 ? confidence / 100 : confidence);
+};
+
+const isCellEnvelope = (value: unknown): value is { value: unknown; confidence?: unknown; box?: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && 'value' in value;
+
+/**
+ * Separates `{value, confidence, box}` cell envelopes into plain rows plus a provenance map
+ * keyed by cellKey. Cells the model answered without an envelope are kept as-is.
+ */
+export const splitProvenance = (rawRows: Record<string, unknown>[]): ExtractionResult => {
+  const provenance: Record<string, CellProvenance> = {};
+
+  const rows = rawRows.map((raw, rowIndex) => {
+    const row: ExtractedDataRow = {};
+    Object.entries(raw).forEach(([column, cell]) => {
+      if (!isCellEnvelope(cell)) {
+        row[column] = cell as ExtractedDataRow[string];
+        return;
+      }
+      row[column] = (cell.value ?? null) as ExtractedDataRow[string];
+      const entry: CellProvenance = { confidence: toConfidence(cell.confidence), box: toBoundingBox(cell.box) };
+      if (entry.confidence !== undefined || entry.box) provenance[cellKey(rowIndex, column)] = entry;
+    });
+    return row;
+  });
+
+  return { rows, provenance };
+};
@@ -0,0 +1,77 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Page, SavedProject } from "../types";
+import { deleteProject, listProjects, loadProject, saveProject, StorageFullError } from "./storageService";
+
+const page = (id: string, originalImage: string, processedImage: string | null = originalImage): Page => ({
+  id, name: id, originalImage, processedImage, extractedData: null, status: 'idle', errorMessage: null,
+});
+
+const project = (id: string, pages: Page[], updatedAt = Date.now()): SavedProject => ({
+  id, name: `Project ${id}`, updatedAt, pageCount: pages.length, pages, selectedPageId: null,
+});
+
+const stubStorageUsage = (usage: number, quota: number) =>
+  vi.stubGlobal('navigator', { storage: { estimate: async () => ({ usage, quota }) } });
+
+describe("storage service", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+    stubStorageUsage(0, 1000);
+  });
+
+  afterEach(async () => {
+    await Promise.all((await listProjects()).map(p => deleteProject(p.id)));
+    vi.unstubAllGlobals();
+  });
+
+  it("writes a page's image again when its deletion is undone", async () => {
+    const kept = page('p1', 'data:image/png;base64,ONE');
+    const deleted = page('p2', 'data:image/png;base64,TWO');
+
+    await saveProject(project('a', [kept, deleted]));
+    await saveProject(project('a', [kept])); // Delete
+    await saveProject(project('a', [kept, deleted])); // Undo
+
+    const loaded = await loadProject('a');
+    expect(loaded?.pages.map(p => p.originalImage)).toEqual(['data:image/png;base64,ONE', 'data:image/png;base64,TWO']);
+  });
+
+  it("writes a processed image again when its reset is undone", async () => {
+    const processed = page('p1', 'data:image/png;base64,ORIGINAL', 'data:image/png;base64,PROCESSED');
+
+    await saveProject(project('a', [processed]));
+    await saveProject(project('a', [{ ...processed, processedImage: processed.originalImage }])); // Reset
+    await saveProject(project('a', [processed])); // Undo
+
+    const loaded = await loadProject('a');
+    expect(loaded?.pages[0].processedImage).toBe('data:image/png;base64,PROCESSED');
+  });
+
+  it("suggests older projects once storage is nearly full, without deleting them", async () => {
+    await saveProject(project('old', [page('p1', 'data:image/png;base64,OLD')], 1));
+    await saveProject(project('older', [page('p2', 'data:image/png;base64,OLDER')], 0));
+    stubStorageUsage(900, 1000);
+
+    const reclaimable = await saveProject(project('active', [page('p3', 'data:image/png;base64,NEW')], 2));
+
+    expect(reclaimable.map(p => p.id)).toEqual(['older', 'old']);
+    expect((await listProjects()).map(p => p.id).sort()).toEqual(['active', 'old', 'older']);
+  });
+
+  it("suggests nothing while storage has room", async () => {
+    await saveProject(project('old', [page('p1', 'data:image/png;base64,OLD')], 1));
+    expect(await saveProject(project('active', [page('p2', 'data:image/png;base64,NEW')], 2))).toEqual([]);
+  });
+
+  it("lists the projects to delete when the quota is exceeded", () => {
+    const error = new StorageFullError([{ id: 'old', name: 'Old', updatedAt: 1, pageCount: 1 }]);
+    expect(error.name).toBe('StorageFullError');
+    expect(error.reclaimable.map(p => p.id)).toEqual(['old']);
+  });
+});
@@ -0,0 +1,278 @@
+import { ExtractionTemplate, Page, ProcessingPreset, ProjectSummary, SavedProject } from "../types";
+import { DB_NAME, DB_VERSION, STORAGE_QUOTA_RATIO } from "../constants";
+
+const PROJECTS_STORE = 'projects';
+const IMAGES_STORE = 'images';
+const TEMPLATES_STORE = 'templates';
+const PRESETS_STORE = 'presets';
+const LAST_PROJECT_KEY = 'sdd:lastProjectId';
+
+// Page as written to IndexedDB: the heavy base64 images live in their own store
+interface StoredPage extends Omit<Page, 'originalImage' | 'processedImage'> {
+  hasProcessedImage: boolean;
+}
+
+interface StoredProject extends ProjectSummary {
+  pages: StoredPage[];
+  selectedPageId: string | null;
+}
+
+interface StoredImage {
+  key: string;
+  projectId: string;
+  data: string;
+}
+
+// Last image written per key, so autosave only rewrites the images that actually changed
+const writtenImages = new Map<string, string>();
+
+/**
+ * Autosave hit the storage quota. Carries the other projects that could be deleted to make
+ * room, least recently updated first, so the user can choose what goes.
+ */
+export class StorageFullError extends Error {
+  reclaimable: ProjectSummary[];
+
+  constructor(reclaimable: ProjectSummary[]) {
+    super("Browser storage is full. Delete older projects or remove pages to keep autosaving.");
+    this.name = 'StorageFullError';
+    this.reclaimable = reclaimable;
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'key' });
+          images.createIndex('projectId', 'projectId');
+        }
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PRESETS_STORE)) {
+          db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const imageKey = (pageId: string, kind: 'original' | 'processed') => `${pageId}:${kind}`;
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const createProjectId = () => Math.random().toString(36).substr(2, 9);
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await requestToPromise<StoredProject[]>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll()
+  );
+  return projects
+    .map(({ id, name, updatedAt, pageCount }) => ({ id, name, updatedAt, pageCount }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const writeProject = async (project: SavedProject) => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+  const images = tx.objectStore(IMAGES_STORE);
+
+  const stored: StoredProject = {
+    id: project.id,
+    name: project.name,
+    updatedAt: project.updatedAt,
+    pageCount: project.pages.length,
+    selectedPageId: project.selectedPageId,
+    pages: project.pages.map(({ originalImage, processedImage, ...rest }) => ({
+      ...rest,
+      // An untouched processed image is the original; don't store it twice
+      hasProcessedImage: !!processedImage && processedImage !== originalImage,
+    })),
+  };
+  tx.objectStore(PROJECTS_STORE).put(stored);
+
+  const liveKeys = new Set<string>();
+  const pending: [string, string][] = [];
+  project.pages.forEach(page => {
+    const original = imageKey(page.id, 'original');
+    liveKeys.add(original);
+    pending.push([original, page.originalImage]);
+    if (page.processedImage && page.processedImage !== page.originalImage) {
+      const processed = imageKey(page.id, 'processed');
+      liveKeys.add(processed);
+      pending.push([processed, page.processedImage]);
+    }
+  });
+
+  pending.forEach(([key, data]) => {
+    if (writtenImages.get(key) === data) return;
+    const record: StoredImage = { key, projectId: project.id, data };
+    images.put(record);
+  });
+
+  // Drop images of pages that were deleted (or whose processed copy was reset)
+  const existingKeys = await requestToPromise(images.index('projectId').getAllKeys(project.id));
+  existingKeys.forEach(key => {
+    if (liveKeys.has(String(key))) return;
+    images.delete(key);
+    // Undoing the delete brings the page back; its image must then be written again
+    writtenImages.delete(String(key));
+  });
+
+  await transactionDone(tx);
+  pending.forEach(([key, data]) => writtenImages.set(key, data));
+  localStorage.setItem(LAST_PROJECT_KEY, project.id);
+};
+
+/**
+ * Autosave entry point. Resolves with the other projects that could be deleted to free space
+ * once usage passes the quota ratio (empty until then); on a quota error, rejects with a
+ * StorageFullError listing them. Nothing is deleted without the user asking for it.
+ */
+export const saveProject = async (project: SavedProject): Promise<ProjectSummary[]> => {
+  try {
+    await writeProject(project);
+  } catch (error) {
+    if (isQuotaError(error)) throw new StorageFullError(await findReclaimableProjects(project.id, true));
+    throw error;
+  }
+  return findReclaimableProjects(project.id);
+};
+
+export const loadProject = async (id: string): Promise<SavedProject | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE]);
+  const stored = await requestToPromise<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(id));
+  if (!stored) return null;
+
+  const records = await requestToPromise<StoredImage[]>(tx.objectStore(IMAGES_STORE).index('projectId').getAll(id));
+  const imageMap = new Map(records.map(r => [r.key, r.data]));
+  records.forEach(r => writtenImages.set(r.key, r.data));
+
+  const pages: Page[] = stored.pages.map(({ hasProcessedImage, ...page }) => {
+    const originalImage = imageMap.get(imageKey(page.id, 'original')) || '';
+    return {
+      ...page,
+      originalImage,
+      processedImage: hasProcessedImage ? imageMap.get(imageKey(page.id, 'processed')) || originalImage : originalImage,
+      // Work that was in flight when the session ended has to be started again
+      status: page.status === 'complete' || page.status === 'error' ? page.status : 'idle',
+    };
+  });
+
+  return {
+    id: stored.id,
+    name: stored.name,
+    updatedAt: stored.updatedAt,
+    pageCount: stored.pageCount,
+    pages,
+    selectedPageId: stored.selectedPageId,
+  };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  const images = tx.objectStore(IMAGES_STORE);
+  const keys = await requestToPromise(images.index('projectId').getAllKeys(id));
+  keys.forEach(key => {
+    images.delete(key);
+    writtenImages.delete(String(key));
+  });
+  await transactionDone(tx);
+  if (getLastProjectId() === id) localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+/**
+ * Quota check: once usage passes STORAGE_QUOTA_RATIO, the projects other than the active one,
+ * least recently updated first, as candidates for the user to delete. `force` lists them even
+ * when the estimate looks fine, since estimates lag behind a QuotaExceededError.
+ */
+export const findReclaimableProjects = async (keepProjectId: string, force = false): Promise<ProjectSummary[]> => {
+  if (!force) {
+    const { usage = 0, quota = 0 } = (await navigator.storage?.estimate?.()) ?? {};
+    if (!quota || usage / quota < STORAGE_QUOTA_RATIO) return [];
+  }
+  return (await listProjects()).filter(p => p.id !== keepProjectId).reverse();
+};
+
+// Extraction templates are shared by all projects
+export const listStoredTemplates = async (): Promise<ExtractionTemplate[]> => {
+  const db = await openDb();
+  const templates = await requestToPromise<ExtractionTemplate[]>(
+    db.transaction(TEMPLATES_STORE).objectStore(TEMPLATES_STORE).getAll()
+  );
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (template: ExtractionTemplate): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+  tx.objectStore(TEMPLATES_STORE).put(template);
+  await transactionDone(tx);
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+  tx.objectStore(TEMPLATES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Pre-processing presets are shared by all projects, like templates
+export const listStoredPresets = async (): Promise<ProcessingPreset[]> => {
+  const db = await openDb();
+  const presets = await requestToPromise<ProcessingPreset[]>(
+    db.transaction(PRESETS_STORE).objectStore(PRESETS_STORE).getAll()
+  );
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = async (preset: ProcessingPreset): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).put(preset);
+  await transactionDone(tx);
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PRESETS_STORE, 'readwrite');
+  tx.objectStore(PRESETS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,87 @@
+import { ExtractedDataRow, ExtractionCost, ExtractionOptions, ExtractionResult, ExtractionTemplate, TemplateFieldType } from "../types";
+import { STRIP_OVERLAP } from "../constants";
+import { mergeStrips, planStrips, StripResult } from "../utils/stripMerge";
+import { getHeaders } from "../utils/tableUtils";
+
+type Extract = (image: string, options: ExtractionOptions) => Promise<ExtractionResult>;
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// Keys are only given once an earlier strip (or the template) has fixed the columns
+const stripContext = (index: number, count: number, hasKeys: boolean) => [
+  `This image is strip ${index + 1} of ${count}, cut horizontally from one taller page; neighbouring strips overlap.`,
+  index > 0 && hasKeys ? 'The table header is above this strip, so use the keys given rather than reading them from the image.' : '',
+  'Include rows cut off at the top or bottom edge, with whatever values are readable.',
+].filter(Boolean).join(' ');
+
+const fieldType = (rows: ExtractedDataRow[], column: string): TemplateFieldType => {
+  const values = rows.map(r => r[column]).filter(v => v !== null && v !== undefined);
+  if (values.length && values.every(v => typeof v === 'number')) return 'number';
+  if (values.length && values.every(v => typeof v === 'boolean')) return 'boolean';
+  return 'string';
+};
+
+// Later strips can't see the header, so they are held to the columns the first strip read
+const columnsOf = (rows: ExtractedDataRow[]): ExtractionTemplate => ({
+  id: 'strip-columns',
+  name: 'Columns of the first strip',
+  fields: getHeaders(rows).map(key => ({ key, type: fieldType(rows, key), required: false, description: '' })),
+});
+
+const sumCosts = (costs: (ExtractionCost | undefined)[]): ExtractionCost | undefined => {
+  const known = costs.filter((c): c is ExtractionCost => !!c);
+  if (known.length === 0) return undefined;
+  const usages = known.map(c => c.usage);
+  return {
+    imageBytes: known.reduce((sum, c) => sum + c.imageBytes, 0),
+    sourceBytes: known.reduce((sum, c) => sum + c.sourceBytes, 0),
+    width: known[0].width,
+    height: known.reduce((sum, c) => sum + c.height, 0),
+    usage: usages.every(Boolean)
+      ? { inputTokens: usages.reduce((sum, u) => sum + u!.inputTokens, 0), outputTokens: usages.reduce((sum, u) => sum + u!.outputTokens, 0) }
+      : undefined,
+    requests: known.length,
+  };
+};
+
+/**
+ * Extracts a dense page as `count` overlapping horizontal strips, one request each, so no single
+ * answer has to hold 100+ rows. Strips are read top to bottom: the first one fixes the columns
+ * (unless a template already does) and the rest are asked for the same keys. The rows are then
+ * merged into one table with the overlap de-duplicated, and the costs of all requests added up.
+ */
+export const extractInStrips = async (
+  image: string, count: number, options: ExtractionOptions, extract: Extract
+): Promise<ExtractionResult> => {
+  const bitmap = await createImageBitmap(await (await fetch(image)).blob());
+  const strips: StripResult[] = [];
+  const costs: (ExtractionCost | undefined)[] = [];
+
+  try {
+    let template = options.template ?? null;
+    for (const [index, bounds] of planStrips(count, STRIP_OVERLAP).entries()) {
+      const top = Math.round(bounds.top * bitmap.height);
+      const height = Math.round(bounds.bottom * bitmap.height) - top;
+      const canvas = new OffscreenCanvas(bitmap.width, height);
+      (canvas.getContext('2d') as OffscreenCanvasRenderingContext2D).drawImage(bitmap, 0, top, bitmap.width, height, 0, 0, bitmap.width, height);
+      // Lossless here; the payload step picks the encoding actually sent
+      const strip = await blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+
+      const result = await extract(strip, { ...options, template, context: stripContext(index, count, !!template) });
+      strips.push({ result, top: top / bitmap.height, bottom: (top + height) / bitmap.height });
+      costs.push(result.cost);
+      if (!template && result.rows.length > 0) template = columnsOf(result.rows);
+    }
+  } finally {
+    bitmap.close();
+  }
+
+  return { ...mergeStrips(strips), cost: sumCosts(costs) };
+};
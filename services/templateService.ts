@@ -0,0 +1,104 @@
+import { Schema, Type } from "@google/genai";
+import { ExtractedDataRow, ExtractionTemplate, TemplateField, TemplateFieldType } from "../types";
+import { wrapGeminiCellSchema, wrapJsonCellSchema } from "./provenanceService";
+
+const GEMINI_TYPES: Record<TemplateFieldType, Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  date: Type.STRING,
+  currency: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+const JSON_SCHEMA_TYPES: Record<TemplateFieldType, string> = {
+  string: 'string',
+  number: 'number',
+  date: 'string',
+  currency: 'number',
+  boolean: 'boolean',
+};
+
+// Extra guidance for types the schema alone can't express
+const TYPE_HINTS: Partial<Record<TemplateFieldType, string>> = {
+  date: 'ISO 8601 date (YYYY-MM-DD).',
+  currency: 'Plain number without currency symbol or thousands separators.',
+};
+
+const describeField = (field: TemplateField) =>
+  [field.description, TYPE_HINTS[field.type]].filter(Boolean).join(' ');
+
+export const buildGeminiSchema = (template: ExtractionTemplate, withProvenance = false): Schema => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(template.fields.map(field => {
+      const valueSchema: Schema = {
+        type: GEMINI_TYPES[field.type],
+        description: describeField(field),
+        nullable: !field.required,
+      };
+      return [field.key, withProvenance ? wrapGeminiCellSchema(valueSchema) : valueSchema];
+    })),
+    required: template.fields.filter(f => f.required).map(f => f.key),
+    propertyOrdering: template.fields.map(f => f.key),
+  },
+});
+
+// JSON Schema for OpenAI-compatible structured outputs; the array is wrapped since the root must be an object
+export const buildJsonSchema = (template: ExtractionTemplate, withProvenance = false) => ({
+  type: 'object',
+  properties: {
+    data: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: Object.fromEntries(template.fields.map(field => {
+          const valueSchema = {
+            type: field.required ? JSON_SCHEMA_TYPES[field.type] : [JSON_SCHEMA_TYPES[field.type], 'null'],
+            description: describeField(field),
+          };
+          return [field.key, withProvenance ? wrapJsonCellSchema(valueSchema) : valueSchema];
+        })),
+        // Strict mode requires every property to be listed; optional ones are nullable instead
+        required: template.fields.map(f => f.key),
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['data'],
+  additionalProperties: false,
+});
+
+export const buildTemplatePrompt = (template: ExtractionTemplate) => {
+  const fieldLines = template.fields
+    .map(f => `- ${f.key} (${f.type}${f.required ? ', required' : ''}): ${describeField(f)}`)
+    .join('\n');
+  return `Extract the data from this image into a JSON array of objects, one object per row or record.
+
+Use EXACTLY these keys, in this order, for every object:
+${fieldLines}
+
+If a value is not present in the document, use null. Do not add other keys.
+
+Return ONLY the JSON array.`;
+};
+
+/**
+ * Forces rows onto the template columns (same keys, same order, missing values as null)
+ * so repeated runs over the same layout always produce identical columns.
+ */
+export const conformToTemplate = (rows: ExtractedDataRow[], template: ExtractionTemplate): ExtractedDataRow[] => {
+  return rows.map(row => {
+    const conformed: ExtractedDataRow = {};
+    template.fields.forEach(field => {
+      conformed[field.key] = row[field.key] ?? null;
+    });
+    return conformed;
+  });
+};
+
+// Turns a free-form header ("Unit Price") into a template key ("unit_price")
+export const toFieldKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export const createTemplateId = () => `tpl-${Math.random().toString(36).substr(2, 9)}`;
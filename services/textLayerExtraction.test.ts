@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { ExtractionTemplate, PdfTextLayer, TemplateField } from "../types";
+import { coversTemplate, extractFromTextLayer } from "./textLayerExtraction";
+
+const field = (key: string, required = false): TemplateField => ({ key, type: 'string', required, description: '' });
+
+const template = (fields: TemplateField[]): ExtractionTemplate => ({ id: 'tpl', name: 'Invoices', fields });
+
+// Header "Date | Description | Amount" over one row, on a 1000px page
+const layer: PdfTextLayer = {
+  width: 1000,
+  height: 1000,
+  runs: [
+    ['Date', 50, 100], ['Description', 200, 100], ['Amount', 500, 100],
+    ['2024-01-02', 50, 120], ['Rent', 200, 120], ['1,000.00', 500, 120],
+  ].map(([text, x, y]) => ({ text: String(text), box: { x: Number(x) / 1000, y: Number(y) / 1000, width: 0.05, height: 0.01 } })),
+};
+
+describe("coversTemplate", () => {
+  it("needs every required field", () => {
+    const invoice = template([field('date', true), field('amount', true), field('vendor')]);
+    expect(coversTemplate(invoice, ['date', null, 'amount'])).toBe(true);
+    expect(coversTemplate(invoice, ['date', null, null])).toBe(false);
+  });
+
+  it("needs most fields when none is required", () => {
+    const invoice = template([field('date'), field('amount'), field('vendor'), field('total')]);
+    expect(coversTemplate(invoice, ['date', 'amount', 'vendor'])).toBe(true);
+    expect(coversTemplate(invoice, ['date', 'amount', null])).toBe(false);
+  });
+});
+
+describe("extractFromTextLayer", () => {
+  it("reads the table with exact cells and their boxes", () => {
+    const result = extractFromTextLayer(layer, { withProvenance: true });
+
+    expect(result?.rows).toEqual([{ Date: '2024-01-02', Description: 'Rent', Amount: '1,000.00' }]);
+    expect(result?.provenance?.['0:Amount']).toEqual({ confidence: 1, box: { x: 0.5, y: 0.12, width: 0.05, height: 0.01 } });
+  });
+
+  it("fills a template it covers, leaving fields without a column empty", () => {
+    const result = extractFromTextLayer(layer, { template: template([field('date', true), field('amount', true), field('vendor')]) });
+
+    expect(result?.rows).toEqual([{ date: '2024-01-02', amount: '1,000.00', vendor: null }]);
+    expect(result?.provenance).toBeUndefined();
+  });
+
+  it("leaves a page to the model when the template isn't covered", () => {
+    expect(extractFromTextLayer(layer, { template: template([field('vendor', true)]) })).toBeNull();
+  });
+});
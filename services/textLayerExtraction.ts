@@ -0,0 +1,56 @@
+import { CellProvenance, ExtractedDataRow, ExtractionOptions, ExtractionResult, ExtractionTemplate, Page, PdfTextLayer } from "../types";
+import { buildTextTable, toBoundingBox } from "../utils/pdfTextTable";
+import { cellKey } from "../utils/tableUtils";
+import { conformToTemplate, toFieldKey } from "./templateService";
+
+/**
+ * Whether boxes on the rendered PDF page still land on the page image. Filters keep the pixels in
+ * place; rotation, a perspective crop or deskewing move them.
+ */
+export const textLayerMatchesImage = (page: Page): boolean => {
+  const settings = page.processingSettings;
+  return !page.processedImage || !settings || (settings.rotation % 360 === 0 && !settings.corners && settings.skewAngle === 0);
+};
+
+/**
+ * Whether the headers found on the page fill the template well enough to skip the model: every
+ * required field, or most fields when none is required. Anything less would leave whole
+ * columns empty that the model could have mapped by meaning.
+ */
+export const coversTemplate = (template: ExtractionTemplate, columns: (string | null)[]): boolean => {
+  const found = new Set(columns.filter(Boolean));
+  const required = template.fields.filter(f => f.required);
+  return required.length > 0
+    ? required.every(f => found.has(f.key))
+    : found.size * 2 > template.fields.length;
+};
+
+/**
+ * Reads a born-digital PDF page from its text layer instead of asking a model about the image.
+ * The text is exact, so every cell gets full confidence and the box of the runs it came from.
+ * With a template, headers are matched to field keys by name; returns null when they don't
+ * cover the template, so the page can go to the model, which maps columns by meaning.
+ */
+export const extractFromTextLayer = (layer: PdfTextLayer, options: ExtractionOptions = {}): ExtractionResult | null => {
+  const table = buildTextTable(layer);
+  const fields = new Set(options.template?.fields.map(f => f.key));
+  const columns = options.template ? table.headers.map(h => fields.has(toFieldKey(h)) ? toFieldKey(h) : null) : table.headers;
+  if (options.template && !coversTemplate(options.template, columns)) return null;
+
+  const provenance: Record<string, CellProvenance> = {};
+  const rows = table.rows.map((cells, rowIndex) => {
+    const row: ExtractedDataRow = {};
+    cells.forEach((cell, i) => {
+      const column = columns[i];
+      if (!column) return;
+      row[column] = cell?.text ?? null;
+      if (cell && options.withProvenance) provenance[cellKey(rowIndex, column)] = { confidence: 1, box: toBoundingBox(cell.rect, layer) };
+    });
+    return row;
+  });
+
+  return {
+    rows: options.template ? conformToTemplate(rows, options.template) : rows,
+    provenance: options.withProvenance ? provenance : undefined,
+  };
+};
@@ -2,7 +2,38 @@ export interface ExtractedDataRow {
   [key: string]: string | number | boolean | null;
 }
 
-export type ProcessingStatus = 'idle' | 'uploading' | 'processing' | 'extracting' | 'complete' | 'error';
+export type ColumnType = 'text' | 'number' | 'currency' | 'percent' | 'date' | 'boolean';
+
+// Normalized (0..1) rectangle on the source image
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CellProvenance {
+  confidence?: number; // 0..1
+  box?: BoundingBox;
+}
+
+// A run of text from a PDF's own text layer; the box is normalized to the rendered page image
+export interface PdfTextRun {
+  text: string;
+  box: BoundingBox;
+}
+
+// The text layer of a born-digital PDF page, with the size of the image it was rendered to
+export interface PdfTextLayer {
+  width: number;
+  height: number;
+  runs: PdfTextRun[];
+}
+
+// How a page's table was read: locally from the PDF text layer, or by a model from the image
+export type ExtractionMethod = 'text-layer' | 'vision';
+
+export type ProcessingStatus = 'idle' | 'uploading' | 'processing' | 'queued' | 'extracting' | 'complete' | 'error';
 
 export interface Page {
   id: string;
@@ -13,21 +44,252 @@ export interface Page {
   status: ProcessingStatus;
   errorMessage: string | null;
   consistencyWarning?: string;
+  sourceFile?: string; // Name of the uploaded file the page came from
+  sourcePageNumber?: number; // 1-based page number within that file
+  editedCells?: string[]; // Cell keys ("row:column") changed by hand after extraction
+  templateId?: string | null; // Extraction template; null/undefined lets the model infer columns
+  cellProvenance?: Record<string, CellProvenance>; // Keyed like editedCells
+  extractionWarnings?: string[];
+  columnTypes?: Record<string, ColumnType>; // User overrides of the inferred column types
+  processingSettings?: ImageProcessingSettings; // How processedImage was rendered from originalImage
+  renderDpi?: number; // Resolution a PDF page was rasterized at; unknown for uploaded images
+  textLayer?: PdfTextLayer; // Only for PDF pages with real text; scans have none
+  extractionMethod?: ExtractionMethod; // Set when the page is extracted
+  extractionCost?: ExtractionCost; // Only for pages sent to a model
 }
 
 export type ThemeOption = 'light' | 'dark' | 'grey' | 'warm';
 
+// The workspace as it was before one undoable edit
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  mergeKey?: string; // Consecutive edits with the same key (e.g. typing in one cell) form one step
+  pages: Page[];
+  selectedPageId: string | null;
+}
+
+export interface EditHistory {
+  past: HistoryEntry[];   // Oldest first
+  future: HistoryEntry[]; // Next redo first
+}
+
 export interface AppState {
+  projectId: string;
+  projectName: string;
   pages: Page[];
   selectedPageId: string | null;
   globalStatus: ProcessingStatus;
   theme: ThemeOption;
+  history: EditHistory; // Session only, not saved with the project
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Document corners in order top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// 'global' uses the fixed threshold; 'otsu' picks one per page; 'mean' and 'sauvola' adapt per neighbourhood
+export type BinarizationMode = 'off' | 'global' | 'otsu' | 'mean' | 'sauvola';
+
 export interface ImageProcessingSettings {
   brightness: number;
   contrast: number;
-  threshold: number;
+  binarization: BinarizationMode;
+  threshold: number; // Level for 'global' binarization (0..255)
+  adaptiveWindow: number; // Neighbourhood size in pixels for 'mean' and 'sauvola'
+  meanOffset: number; // How far below the local mean a pixel must be to count as ink
+  sauvolaK: number; // Sauvola sensitivity; higher keeps less faint ink
+  medianRadius: number; // Despeckle: 0 is off, 1 is 3x3, 2 is 5x5
+  sharpen: number; // Unsharp mask amount, 0..100
+  flattenBackground: boolean; // Divides out shadows and uneven lighting
   grayscale: boolean;
   rotation: number;
-}
\ No newline at end of file
+  corners: Quad | null; // Normalized (0..1) on the rotated image; null keeps the full frame
+  skewAngle: number; // Fine rotation in degrees applied after the perspective warp
+}
+
+// Orientation, corners and skew belong to each page, so presets only carry the filters
+export type PresetSettings = Omit<ImageProcessingSettings, 'corners' | 'skewAngle' | 'rotation'>;
+
+export interface ProcessingPreset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+  builtIn?: boolean;
+}
+
+// Outcome of applying filters to a set of pages
+export interface FilterRunResult {
+  applied: number;
+  failed: number;
+  skipped: number; // Already extracted or in progress, left unchanged
+  cancelled: boolean;
+}
+
+export type ExtractionProviderId = 'gemini' | 'openai' | 'mock';
+
+export type TemplateFieldType = 'string' | 'number' | 'date' | 'currency' | 'boolean';
+
+export interface TemplateField {
+  key: string; // Output column name (lower_snake_case)
+  type: TemplateFieldType;
+  required: boolean;
+  description: string;
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  fields: TemplateField[];
+  builtIn?: boolean;
+}
+
+export interface ExtractionOptions {
+  template?: ExtractionTemplate | null;
+  withProvenance?: boolean; // Ask for per-cell confidence and source boxes
+  context?: string; // What the image is, when it isn't a whole page (e.g. one strip of a dense page)
+  signal?: AbortSignal;
+}
+
+// Tokens the provider billed for one request
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// What extracting a page cost: the image as sent, and the tokens when the provider reports them
+export interface ExtractionCost {
+  imageBytes: number; // After downscaling and re-encoding
+  sourceBytes: number; // The page image it was prepared from
+  width: number; // Pixels sent
+  height: number;
+  usage?: TokenUsage;
+  requests?: number; // More than one when the page was extracted in strips
+}
+
+export interface ExtractionResult {
+  rows: ExtractedDataRow[];
+  provenance?: Record<string, CellProvenance>;
+  warnings?: string[]; // Repairs applied to the model output (truncation, envelopes...)
+  usage?: TokenUsage; // Reported by the provider, when it does
+  cost?: ExtractionCost; // Filled in by extractTable
+}
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  extract: (base64Image: string, options?: ExtractionOptions) => Promise<ExtractionResult>;
+}
+
+export type ExportFormatId = 'json' | 'ndjson' | 'sql' | 'markdown' | 'html';
+export type ExportScope = 'page' | 'selection' | 'master';
+export type SqlDialect = 'sqlite' | 'postgres';
+// Page images with their text positioned on top, rather than tables
+export type ArchiveFormatId = 'pdf' | 'hocr' | 'alto';
+
+// One table handed to an export format: a page, a stitched document or the master sheet
+export interface ExportTable {
+  name: string;
+  sourceFiles: string[];
+  pageNumbers: number[]; // Positions in the page list, 1-based
+  columns: string[];
+  columnTypes: Record<string, ColumnType>; // Resolved: inferred types with user overrides applied
+  rows: ExtractedDataRow[];
+}
+
+// How a source column appears in the export
+export interface ColumnMapping {
+  source: string;
+  name: string;
+  include: boolean;
+}
+
+export interface ExportOptions {
+  tableName: string; // SQL table name, or its prefix when there are several tables
+  sqlDialect: SqlDialect;
+}
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (tables: ExportTable[], options: ExportOptions) => string;
+}
+
+// A sheet of an imported spreadsheet or CSV the extracted rows are checked against
+export interface ReferenceTable {
+  fileName: string;
+  sheetName: string;
+  headers: string[];
+  rows: ExtractedDataRow[];
+}
+
+// A reference column and the extracted column it is compared with
+export interface ReconcileColumn {
+  reference: string;
+  scan: string | null; // null leaves the column out of the comparison
+  isKey: boolean;
+}
+
+export type ReconcileStatus = 'matched' | 'mismatch' | 'scan-only' | 'reference-only';
+
+export interface CellMismatch {
+  column: string; // Reference column name
+  scanValue: ExtractedDataRow[string];
+  referenceValue: ExtractedDataRow[string];
+}
+
+export interface ReconciledRow {
+  status: ReconcileStatus;
+  key: string; // Key values joined for display
+  scanRow: ExtractedDataRow | null;
+  referenceRow: ExtractedDataRow | null;
+  mismatches: CellMismatch[];
+}
+
+// File formats recognized on import, by content rather than extension
+export type ImportFileFormat = 'pdf' | 'jpeg' | 'png' | 'webp' | 'tiff' | 'heic' | 'bmp';
+
+// An uploaded file that was rejected or only partly imported, with the reason shown to the user
+export interface SkippedFile {
+  fileName: string;
+  reason: string;
+}
+
+export type PdfImageFormat = 'jpeg' | 'png';
+
+// How the pages of an uploaded PDF are rasterized
+export interface PdfImportOptions {
+  dpi: number;
+  pageRange: string; // e.g. "1-3, 7, 10-"; empty imports every page
+  imageFormat: PdfImageFormat;
+  useTextLayer: boolean; // Read born-digital pages from their text instead of sending the image to a model
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  pageCount: number;
+}
+
+export interface SavedProject extends ProjectSummary {
+  pages: Page[];
+  selectedPageId: string | null;
+}
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+export interface BatchProgress {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  startedAt: number;
+}
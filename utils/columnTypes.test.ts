@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { ColumnFormat, normalizeCell, parseTypedValue, toTableCell } from "./columnTypes";
+
+const DOT: ColumnFormat = { decimal: '.', dateOrder: 'DMY' };
+const COMMA: ColumnFormat = { decimal: ',', dateOrder: 'DMY' };
+
+describe("percent columns", () => {
+  it("reads a bare whole number next to written percentages as a percentage", () => {
+    expect(['12', '15%'].map(v => parseTypedValue(v, 'percent', DOT))).toEqual([0.12, 0.15]);
+  });
+
+  it("reads a column of numbers switched to percent as whole percentages", () => {
+    expect([12, 15].map(v => normalizeCell(v, 'percent', DOT))).toEqual([0.12, 0.15]);
+  });
+
+  it("keeps bare values up to 1 as fractions", () => {
+    expect([0.12, '0.5', 1].map(v => normalizeCell(v, 'percent', DOT))).toEqual([0.12, 0.5, 1]);
+  });
+
+  it("writes percentages back to the table so normalizing again changes nothing", () => {
+    const once = ['150%', 12, '0.12', '7.5 %'].map(v => toTableCell(v, 'percent', DOT));
+    expect(once).toEqual(['150%', '12%', '12%', '7.5%']);
+    expect(once.map(v => toTableCell(v, 'percent', DOT))).toEqual(once);
+    expect(once.map(v => normalizeCell(v, 'percent', DOT))).toEqual([1.5, 0.12, 0.12, 0.075]);
+  });
+
+  it("writes the column's decimal separator", () => {
+    expect(toTableCell('7,5%', 'percent', COMMA)).toBe('7,5%');
+  });
+
+  it("keeps text that isn't a number", () => {
+    expect(toTableCell('n/a', 'percent', DOT)).toBe('n/a');
+  });
+});
+
+describe("toTableCell", () => {
+  it("stores other types as their typed value", () => {
+    expect(toTableCell('$1,234.50', 'currency', DOT)).toBe(1234.5);
+    expect(toTableCell('05/03/24', 'date', DOT)).toBe('2024-03-05');
+  });
+});
@@ -0,0 +1,206 @@
+import { ColumnType, ExtractedDataRow } from "../types";
+
+export const COLUMN_TYPES: ColumnType[] = ['text', 'number', 'currency', 'percent', 'date', 'boolean'];
+
+// How the numbers and dates of one column are written
+export interface ColumnFormat {
+  decimal: '.' | ',';
+  dateOrder: 'DMY' | 'MDY';
+}
+
+// Excel number formats written for each type (text and boolean keep the default)
+export const EXCEL_NUMBER_FORMATS: Partial<Record<ColumnType, string>> = {
+  number: '#,##0.########',
+  currency: '#,##0.00',
+  percent: '0.00%',
+  date: 'yyyy-mm-dd',
+};
+
+// Share of non-empty cells that must parse as a type for the column to be inferred as it
+const INFERENCE_RATIO = 0.8;
+
+const CURRENCY_PATTERN = /[$€£¥₹₩₽¢]|\b(?:USD|EUR|GBP|JPY|INR|CAD|AUD|CHF|CNY|SEK|NOK|DKK)\b/gi;
+const TRUE_WORDS = ['true', 'yes', 'y', 'x', '✓', '✔'];
+const FALSE_WORDS = ['false', 'no', 'n', '-', '✗', '✘'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const userLocale = () => (typeof navigator !== 'undefined' && navigator.language) || 'en-US';
+
+const localeFormat = (): ColumnFormat => {
+  const locale = userLocale();
+  const decimal = (1.5).toLocaleString(locale).includes(',') ? ',' : '.';
+  const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2001, 10, 22)).map(p => p.type);
+  return { decimal, dateOrder: parts.indexOf('day') < parts.indexOf('month') ? 'DMY' : 'MDY' };
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Works out the decimal separator and day/month order from the values of one column,
+ * falling back to the browser locale when the column gives no clue (e.g. "1,234" or "05/06/24").
+ */
+export const detectColumnFormat = (values: unknown[]): ColumnFormat => {
+  const fallback = localeFormat();
+  let dotVotes = 0;
+  let commaVotes = 0;
+  let dmyVotes = 0;
+  let mdyVotes = 0;
+
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const text = value.trim();
+    if (/\d,\d{3}\.\d/.test(text) || /^[^,]*\d\.\d{1,2}\D*$/.test(text)) dotVotes++;
+    if (/\d\.\d{3},\d/.test(text) || /^[^.]*\d,\d{1,2}\D*$/.test(text)) commaVotes++;
+
+    const date = text.match(/^(\d{1,2})[\/.\-](\d{1,2})[\/.\-]\d{2,4}$/);
+    if (date) {
+      if (Number(date[1]) > 12) dmyVotes++;
+      if (Number(date[2]) > 12) mdyVotes++;
+    }
+  });
+
+  return {
+    decimal: dotVotes === commaVotes ? fallback.decimal : dotVotes > commaVotes ? '.' : ',',
+    dateOrder: dmyVotes === mdyVotes ? fallback.dateOrder : dmyVotes > mdyVotes ? 'DMY' : 'MDY',
+  };
+};
+
+export const parseNumber = (value: unknown, format: ColumnFormat): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim().replace(CURRENCY_PATTERN, '').replace(/[\s '%]/g, '');
+  let negative = false;
+  // Accounting negatives: (1,234.50) or 1,234.50-
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  } else if (/^\d.*-$/.test(text)) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const thousands = format.decimal === '.' ? ',' : '.';
+  text = text.split(thousands).join('');
+  if (format.decimal === ',') text = text.replace(',', '.');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+
+  const n = Number(text);
+  return negative ? -n : n;
+};
+
+const toFullYear = (year: number) => (year >= 100 ? year : year < 50 ? 2000 + year : 1900 + year);
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(toFullYear(year), month - 1, day);
+  // Rejects rollovers such as 31/02
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+export const parseDate = (value: unknown, format: ColumnFormat): Date | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  let m = text.match(/^(\d{4})[\/.\-](\d{1,2})[\/.\-](\d{1,2})(?:[T ].*)?$/);
+  if (m) return buildDate(+m[1], +m[2], +m[3]);
+
+  m = text.match(/^(\d{1,2})[\/.\-](\d{1,2})[\/.\-](\d{2,4})$/);
+  if (m) return format.dateOrder === 'DMY' ? buildDate(+m[3], +m[2], +m[1]) : buildDate(+m[3], +m[1], +m[2]);
+
+  // 12 Mar 2024, 12-Mar-24
+  m = text.match(/^(\d{1,2})[\s\-.]+([A-Za-z]{3,})\.?[\s\-.,]+(\d{2,4})$/);
+  if (m && monthIndex(m[2]) > 0) return buildDate(+m[3], monthIndex(m[2]), +m[1]);
+
+  // Mar 12, 2024
+  m = text.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{2,4})$/);
+  if (m && monthIndex(m[1]) > 0) return buildDate(+m[3], monthIndex(m[1]), +m[2]);
+
+  return null;
+};
+
+export const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (TRUE_WORDS.includes(text)) return true;
+  if (FALSE_WORDS.includes(text)) return false;
+  return null;
+};
+
+/**
+ * Parses one cell as the given type. Returns undefined when the value doesn't fit,
+ * so callers can keep the original text rather than lose it.
+ */
+export const parseTypedValue = (value: unknown, type: ColumnType, format: ColumnFormat): number | boolean | Date | string | null | undefined => {
+  if (isEmpty(value)) return null;
+  switch (type) {
+    case 'number':
+    case 'currency':
+      return parseNumber(value, format) ?? undefined;
+    case 'percent': {
+      // Fractions, as Excel expects: "12%" and a bare 12 are both 0.12; a bare value up to 1 is already a fraction
+      const n = parseNumber(value, format);
+      if (n === null) return undefined;
+      return (typeof value === 'string' && value.includes('%')) || Math.abs(n) > 1 ? n / 100 : n;
+    }
+    case 'date':
+      return parseDate(value, format) ?? undefined;
+    case 'boolean':
+      return parseBoolean(value) ?? undefined;
+    default:
+      return String(value);
+  }
+};
+
+const ratio = <T,>(values: T[], test: (v: T) => boolean) =>
+  values.length === 0 ? 0 : values.filter(test).length / values.length;
+
+export const inferColumnType = (values: unknown[]): ColumnType => {
+  const filled = values.filter(v => !isEmpty(v));
+  if (filled.length === 0) return 'text';
+  const format = detectColumnFormat(filled);
+  const asText = filled.map(v => String(v));
+
+  if (ratio(filled, v => parseBoolean(v) !== null) >= INFERENCE_RATIO && filled.some(v => typeof v === 'boolean' || /[a-z]/i.test(String(v)))) {
+    return 'boolean';
+  }
+  if (ratio(filled, v => parseDate(v, format) !== null) >= INFERENCE_RATIO) return 'date';
+
+  const numeric = ratio(filled, v => parseNumber(v, format) !== null) >= INFERENCE_RATIO;
+  if (!numeric) return 'text';
+  if (ratio(asText, v => v.trim().endsWith('%')) >= INFERENCE_RATIO) return 'percent';
+  if (asText.some(v => new RegExp(CURRENCY_PATTERN.source, 'i').test(v))) return 'currency';
+  return 'number';
+};
+
+/** Inferred type for every column, with the user's per-column overrides applied on top. */
+export const resolveColumnTypes = (rows: ExtractedDataRow[], overrides: Record<string, ColumnType> = {}): Record<string, ColumnType> => {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  return Object.fromEntries(columns.map(column => [
+    column,
+    overrides[column] ?? inferColumnType(rows.map(row => row[column])),
+  ]));
+};
+
+export const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Canonical value to store back in the table: numbers as numbers, dates as ISO strings
+export const normalizeCell = (value: ExtractedDataRow[string], type: ColumnType, format: ColumnFormat): ExtractedDataRow[string] => {
+  const parsed = parseTypedValue(value, type, format);
+  if (parsed === undefined) return value;
+  return parsed instanceof Date ? toIsoDate(parsed) : parsed;
+};
+
+/**
+ * The form an edited or normalized cell is written back to the table in. Percentages stay written
+ * out ("150%"): stored as the fraction 1.5 they would read as a bare 1.5% when normalized again.
+ */
+export const toTableCell = (value: ExtractedDataRow[string], type: ColumnType, format: ColumnFormat): ExtractedDataRow[string] => {
+  const normalized = normalizeCell(value, type, format);
+  if (type !== 'percent' || typeof normalized !== 'number') return normalized;
+  const whole = String(Number((normalized * 100).toFixed(10)));
+  return `${format.decimal === ',' ? whole.replace('.', ',') : whole}%`;
+};
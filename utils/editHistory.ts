@@ -0,0 +1,82 @@
+import { AppState, EditHistory, HistoryEntry, Page } from "../types";
+import { MAX_HISTORY_ENTRIES } from "../constants";
+
+/**
+ * Undo/redo over the page list. Pages are never mutated, so each step is a cheap snapshot of
+ * the `pages` array. Edits are recorded by wrapping a state updater, which keeps recording
+ * inside React's own state update.
+ */
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+let nextEntryId = 0;
+
+// An entry keeps its id as it moves between the undo and redo stacks
+const snapshot = (state: AppState, label: string, mergeKey?: string, id = nextEntryId++): HistoryEntry => ({
+  id,
+  label,
+  timestamp: Date.now(),
+  mergeKey,
+  pages: state.pages,
+  selectedPageId: state.selectedPageId,
+});
+
+// A page caught mid-extraction in a snapshot comes back ready to extract again
+const settle = (pages: Page[]): Page[] =>
+  pages.map(p => p.status === 'queued' || p.status === 'extracting' ? { ...p, status: 'idle' } : p);
+
+const restore = (state: AppState, entry: HistoryEntry, history: EditHistory): AppState => {
+  const pages = settle(entry.pages);
+  const selectedPageId = pages.some(p => p.id === state.selectedPageId) ? state.selectedPageId : entry.selectedPageId;
+  return { ...state, pages, selectedPageId, history };
+};
+
+const samePages = (a: Page[], b: Page[]) => a.length === b.length && a.every((page, i) => page === b[i]);
+
+/**
+ * Wraps `update` so the page list before it becomes an undo step. Updates that leave every
+ * page untouched are not recorded.
+ */
+export const recordEdit = (label: string, update: (prev: AppState) => AppState, mergeKey?: string) =>
+  (prev: AppState): AppState => {
+    const next = update(prev);
+    if (samePages(next.pages, prev.pages)) return next;
+
+    const last = prev.history.past[prev.history.past.length - 1];
+    if (mergeKey && last?.mergeKey === mergeKey) {
+      return { ...next, history: { past: prev.history.past, future: [] } };
+    }
+    const past = [...prev.history.past, snapshot(prev, label, mergeKey)].slice(-MAX_HISTORY_ENTRIES);
+    return { ...next, history: { past, future: [] } };
+  };
+
+export const undoEdit = (state: AppState): AppState => {
+  const { past, future } = state.history;
+  const entry = past[past.length - 1];
+  if (!entry) return state;
+  return restore(state, entry, {
+    past: past.slice(0, -1),
+    future: [snapshot(state, entry.label, undefined, entry.id), ...future],
+  });
+};
+
+export const redoEdit = (state: AppState): AppState => {
+  const { past, future } = state.history;
+  const [entry, ...rest] = future;
+  if (!entry) return state;
+  return restore(state, entry, {
+    past: [...past, snapshot(state, entry.label, undefined, entry.id)],
+    future: rest,
+  });
+};
+
+// Undoes or redoes until the edit `entryId` is the last one applied; null undoes everything
+export const jumpToEdit = (state: AppState, entryId: number | null): AppState => {
+  let current = state;
+  const isLastApplied = () => current.history.past[current.history.past.length - 1]?.id === entryId;
+  while (current.history.past.length > 0 && !isLastApplied() && (entryId === null || current.history.past.some(e => e.id === entryId))) {
+    current = undoEdit(current);
+  }
+  while (entryId !== null && current.history.future.some(e => e.id === entryId)) current = redoEdit(current);
+  return current;
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { ExportOptions, ExportTable } from "../types";
+import { htmlFormat, jsonFormat, markdownFormat, ndjsonFormat, sqlFormat } from "./exportFormats";
+
+const table = (overrides: Partial<ExportTable> = {}): ExportTable => ({
+  name: 'Page 1',
+  sourceFiles: ['sales.pdf'],
+  pageNumbers: [1],
+  columns: ['Name', 'Price', 'Sold On', 'In "Stock"'],
+  columnTypes: { 'Name': 'text', 'Price': 'currency', 'Sold On': 'date', 'In "Stock"': 'boolean' },
+  rows: [
+    { 'Name': "O'Brien's", 'Price': '$1,200.50', 'Sold On': '25/03/2024', 'In "Stock"': 'yes' },
+    { 'Name': '', 'Price': 'n/a', 'Sold On': 'soon', 'In "Stock"': null },
+  ],
+  ...overrides,
+});
+
+const options = (overrides: Partial<ExportOptions> = {}): ExportOptions => ({ tableName: 'items', sqlDialect: 'postgres', ...overrides });
+
+describe("sqlFormat", () => {
+  it("writes Postgres types and literals, quoting identifiers and values", () => {
+    const sql = sqlFormat.serialize([table()], options());
+
+    expect(sql).toContain([
+      'CREATE TABLE IF NOT EXISTS "items" (',
+      '  "Name" TEXT,',
+      '  "Price" NUMERIC(18, 2),',
+      '  "Sold On" DATE,',
+      '  "In ""Stock""" BOOLEAN',
+      ');',
+    ].join('\n'));
+    expect(sql).toContain(`INSERT INTO "items" ("Name", "Price", "Sold On", "In ""Stock""") VALUES ('O''Brien''s', 1200.5, '2024-03-25', TRUE);`);
+    expect(sql.startsWith('BEGIN;\n')).toBe(true);
+    expect(sql.endsWith('COMMIT;\n')).toBe(true);
+  });
+
+  it("writes SQLite types and stores flags as integers", () => {
+    const sql = sqlFormat.serialize([table()], options({ sqlDialect: 'sqlite' }));
+
+    expect(sql).toContain('"Price" REAL');
+    expect(sql).toContain('"Sold On" TEXT');
+    expect(sql).toContain('"In ""Stock""" INTEGER');
+    expect(sql).toContain(`VALUES ('O''Brien''s', 1200.5, '2024-03-25', 1);`);
+  });
+
+  it("writes blanks and values that don't parse in typed columns as NULL", () => {
+    ['postgres', 'sqlite'].forEach(dialect => {
+      const sql = sqlFormat.serialize([table()], options({ sqlDialect: dialect as ExportOptions['sqlDialect'] }));
+      expect(sql).toContain('VALUES (NULL, NULL, NULL, NULL);');
+    });
+  });
+
+  it("names a single table after the option and several after their own names, uniquely", () => {
+    expect(sqlFormat.serialize([table()], options({ tableName: 'Sales Data!' }))).toContain('CREATE TABLE IF NOT EXISTS "sales_data"');
+
+    const sql = sqlFormat.serialize([table(), table(), table({ name: '***' })], options({ tableName: 'export' }));
+    expect(sql.match(/CREATE TABLE IF NOT EXISTS "[^"]+"/g)).toEqual([
+      'CREATE TABLE IF NOT EXISTS "export_page_1"',
+      'CREATE TABLE IF NOT EXISTS "export_page_1_2"',
+      'CREATE TABLE IF NOT EXISTS "export_table"',
+    ]);
+  });
+});
+
+describe("text formats", () => {
+  it("writes typed values to JSON with the column types", () => {
+    const [exported] = JSON.parse(jsonFormat.serialize([table()], options())).tables;
+
+    expect(exported.columns[1]).toEqual({ name: 'Price', type: 'currency' });
+    expect(exported.rows[0]).toEqual({ 'Name': "O'Brien's", 'Price': 1200.5, 'Sold On': '2024-03-25', 'In "Stock"': true });
+    // Text that doesn't parse is kept rather than lost
+    expect(exported.rows[1].Price).toBe('n/a');
+  });
+
+  it("writes one JSON object per line, tagged with its table", () => {
+    const lines = ndjsonFormat.serialize([table(), table({ name: 'Page 2' })], options()).trim().split('\n');
+
+    expect(lines).toHaveLength(4);
+    expect(JSON.parse(lines[2])).toMatchObject({ _table: 'Page 2', Price: 1200.5 });
+  });
+
+  it("escapes pipes and line breaks in Markdown and right-aligns numbers", () => {
+    const md = markdownFormat.serialize([table({ rows: [{ 'Name': 'a | b\nc', 'Price': 3 }] })], options());
+
+    expect(md).toContain('| --- | ---: | --- | --- |');
+    expect(md).toContain('| a \\| b<br>c | 3 |  |  |');
+  });
+
+  it("escapes markup in HTML", () => {
+    const html = htmlFormat.serialize([table({ name: '<Sales>', rows: [{ 'Name': 'Fish & "Chips"' }] })], options());
+
+    expect(html).toContain('<caption>&lt;Sales&gt;</caption>');
+    expect(html).toContain('<td>Fish &amp; &quot;Chips&quot;</td>');
+    expect(html).toContain('<th>In &quot;Stock&quot;</th>');
+  });
+});
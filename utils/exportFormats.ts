@@ -0,0 +1,163 @@
+import { ColumnType, ExportFormat, ExportOptions, ExportTable, ExtractedDataRow, SqlDialect } from "../types";
+import { detectColumnFormat, normalizeCell } from "./columnTypes";
+
+// Text serializers for the export dialog. Values are written typed: numbers as numbers, dates as ISO strings
+
+type Value = ExtractedDataRow[string];
+
+// Rows with every cell in its column's canonical form; cells that don't parse keep their text
+const typedRows = (table: ExportTable): ExtractedDataRow[] => {
+  const formats = Object.fromEntries(table.columns.map(c => [c, detectColumnFormat(table.rows.map(r => r[c]))]));
+  return table.rows.map(row => Object.fromEntries(table.columns.map(c => [
+    c,
+    normalizeCell(row[c] ?? null, table.columnTypes[c] ?? 'text', formats[c]),
+  ])));
+};
+
+const isNumericType = (type: ColumnType | undefined) => type === 'number' || type === 'currency' || type === 'percent';
+
+export const jsonFormat: ExportFormat = {
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  serialize: (tables) => JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    tables: tables.map(table => ({
+      name: table.name,
+      sourceFiles: table.sourceFiles,
+      pages: table.pageNumbers,
+      columns: table.columns.map(name => ({ name, type: table.columnTypes[name] ?? 'text' })),
+      rows: typedRows(table),
+    })),
+  }, null, 2),
+};
+
+// One object per line; the table a row came from is kept in "_table" so streams can be split again
+export const ndjsonFormat: ExportFormat = {
+  id: 'ndjson',
+  label: 'JSON Lines',
+  extension: 'ndjson',
+  mimeType: 'application/x-ndjson',
+  serialize: (tables) => tables
+    .flatMap(table => typedRows(table).map(row => JSON.stringify({ _table: table.name, ...row })))
+    .join('\n') + '\n',
+};
+
+const SQL_TYPES: Record<SqlDialect, Record<ColumnType, string>> = {
+  sqlite: { text: 'TEXT', number: 'REAL', currency: 'REAL', percent: 'REAL', date: 'TEXT', boolean: 'INTEGER' },
+  postgres: { text: 'TEXT', number: 'DOUBLE PRECISION', currency: 'NUMERIC(18, 2)', percent: 'DOUBLE PRECISION', date: 'DATE', boolean: 'BOOLEAN' },
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const sqlLiteral = (value: Value, type: ColumnType, dialect: SqlDialect): string => {
+  if (value === null || value === undefined || value === '') return 'NULL';
+  if (typeof value === 'number') return isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'boolean') return dialect === 'sqlite' ? (value ? '1' : '0') : (value ? 'TRUE' : 'FALSE');
+  // Text left in a typed column (it didn't parse) would break the insert, so it becomes NULL
+  if (type === 'date' ? !/^\d{4}-\d{2}-\d{2}$/.test(value) : type !== 'text') return 'NULL';
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+const toIdentifier = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'table';
+
+// A single table takes the chosen name; several get it as a prefix, made unique
+const sqlTableNames = (tables: ExportTable[], options: ExportOptions): string[] => {
+  const base = toIdentifier(options.tableName);
+  if (tables.length === 1) return [base];
+  const used = new Set<string>();
+  return tables.map(table => {
+    const stem = `${base}_${toIdentifier(table.name)}`;
+    let name = stem;
+    for (let n = 2; used.has(name); n++) name = `${stem}_${n}`;
+    used.add(name);
+    return name;
+  });
+};
+
+// CREATE TABLE plus one INSERT per row, in a transaction. Column types and literals follow the chosen
+// dialect, so a script written for SQLite won't load into Postgres or the other way round
+export const sqlFormat: ExportFormat = {
+  id: 'sql',
+  label: 'SQL',
+  extension: 'sql',
+  mimeType: 'application/sql',
+  serialize: (tables, options) => {
+    const dialect = options.sqlDialect;
+    const names = sqlTableNames(tables, options);
+    const statements = tables.map((table, index) => {
+      const name = quoteIdentifier(names[index]);
+      const types = table.columns.map(c => table.columnTypes[c] ?? 'text');
+      const columnList = table.columns.map(quoteIdentifier).join(', ');
+      const create = `CREATE TABLE IF NOT EXISTS ${name} (\n${
+        table.columns.map((c, i) => `  ${quoteIdentifier(c)} ${SQL_TYPES[dialect][types[i]]}`).join(',\n')
+      }\n);`;
+      const inserts = typedRows(table).map(row =>
+        `INSERT INTO ${name} (${columnList}) VALUES (${table.columns.map((c, i) => sqlLiteral(row[c], types[i], dialect)).join(', ')});`
+      );
+      return [create, ...inserts].join('\n');
+    });
+    return `BEGIN;\n\n${statements.join('\n\n')}\n\nCOMMIT;\n`;
+  },
+};
+
+const cellText = (value: Value) => value === null || value === undefined ? '' : String(value);
+
+const escapeMarkdown = (text: string) => text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+export const markdownFormat: ExportFormat = {
+  id: 'markdown',
+  label: 'Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  serialize: (tables) => tables.map(table => {
+    const align = table.columns.map(c => isNumericType(table.columnTypes[c]) ? '---:' : '---');
+    const lines = [
+      `| ${table.columns.map(escapeMarkdown).join(' | ')} |`,
+      `| ${align.join(' | ')} |`,
+      ...typedRows(table).map(row => `| ${table.columns.map(c => escapeMarkdown(cellText(row[c]))).join(' | ')} |`),
+    ];
+    return `## ${table.name}\n\n${lines.join('\n')}\n`;
+  }).join('\n'),
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A standalone page that opens in any browser or pastes into a word processor
+export const htmlFormat: ExportFormat = {
+  id: 'html',
+  label: 'HTML',
+  extension: 'html',
+  mimeType: 'text/html',
+  serialize: (tables) => {
+    const body = tables.map(table => {
+      const numeric = table.columns.map(c => isNumericType(table.columnTypes[c]));
+      const head = table.columns.map((c, i) => `<th${numeric[i] ? ' class="num"' : ''}>${escapeHtml(c)}</th>`).join('');
+      const rows = typedRows(table).map(row =>
+        `<tr>${table.columns.map((c, i) => `<td${numeric[i] ? ' class="num"' : ''}>${escapeHtml(cellText(row[c]))}</td>`).join('')}</tr>`
+      );
+      return `<table>\n<caption>${escapeHtml(table.name)}</caption>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows.join('\n')}\n</tbody>\n</table>`;
+    });
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(tables.length === 1 ? tables[0].name : 'Extracted tables')}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+caption { text-align: left; font-weight: 600; padding-bottom: 0.5rem; }
+th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: left; }
+th { background: #f3f3f3; }
+.num { text-align: right; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+  },
+};
@@ -1,20 +1,22 @@
-import { ExtractedDataRow, Page } from "../types";
+import { ColumnType, ExtractedDataRow, Page, PdfImportOptions, PdfTextLayer, PdfTextRun, ReconciledRow, ReferenceTable } from "../types";
+import { MIN_TEXT_LAYER_CHARS, PDF_JPEG_QUALITY } from "../constants";
 import * as XLSX from "xlsx";
 import * as pdfjsLib from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.js?url";
+import { detectColumnFormat, EXCEL_NUMBER_FORMATS, parseTypedValue, resolveColumnTypes, toIsoDate } from "./columnTypes";
+import { cellKey, getHeaders, parseCellKey } from "./tableUtils";
+import { StitchedTable } from "./tableStitching";
+import { addCellComments, addEditComments, autoFitColumns, buildSummarySheet, pageSheetName, uniqueSheetName, writeStyledWorkbook } from "./workbook";
 
 // PDF.js setup - handle different module export formats (ESM vs CJS interop)
 const pdfjs = (pdfjsLib as any).default || pdfjsLib;
 
-// Version must match exactly the version in index.html importmap for compatibility
-const PDFJS_VERSION = '3.11.174';
+// The worker is bundled by Vite; cmaps and standard fonts are copied next to the build by the
+// pdfjs-assets plugin in vite.config.ts. Nothing is fetched from a CDN, so import works offline.
+const PDFJS_ASSETS = `${import.meta.env.BASE_URL}pdfjs/`;
 
-/**
- * Configure PDF.js GlobalWorkerOptions.
- * We use unpkg as it provides a more reliable direct path to the worker file
- * that avoids common 'esm.sh' bundling issues with importScripts.
- */
 if (pdfjs.GlobalWorkerOptions) {
-  pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${PDFJS_VERSION}/build/pdf.worker.min.js`;
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 }
 
 export const fileToBase64 = (file: File): Promise<string> => {
@@ -26,73 +28,175 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-export const convertPdfToImages = async (file: File): Promise<string[]> => {
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    
-    // Force re-verify worker source before each document processing
-    if (pdfjs.GlobalWorkerOptions) {
-      pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${PDFJS_VERSION}/build/pdf.worker.min.js`;
-    }
+/**
+ * Parses a page selection such as "1-3, 7, 10-" (open ends run to the first or last page).
+ * Returns the 1-based page numbers in order, or null when the text isn't a valid selection.
+ * An empty selection means every page.
+ */
+export const parsePageRange = (text: string, pageCount: number): number[] | null => {
+  if (!text.trim()) return Array.from({ length: pageCount }, (_, i) => i + 1);
+  const pages = new Set<number>();
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const m = part.match(/^(\d*)\s*(-)?\s*(\d*)$/);
+    if (!m || (!m[1] && !m[3])) return null;
+    const from = m[1] ? Number(m[1]) : 1;
+    const to = m[2] ? (m[3] ? Number(m[3]) : Infinity) : from;
+    if (from < 1 || to < from) return null;
+    for (let n = from; n <= Math.min(to, pageCount); n++) pages.add(n);
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
 
-    const loadingTask = pdfjs.getDocument({ 
-      data: arrayBuffer,
-      // Standard character maps for rendering complex fonts
-      cMapUrl: `https://unpkg.com/pdfjs-dist@${PDFJS_VERSION}/cmaps/`,
+export interface RenderedPdfPage {
+  image: string; // Data URL
+  pageNumber: number; // 1-based, within the file
+  dpi: number;
+  textLayer?: PdfTextLayer; // Missing for scanned pages
+}
+
+/**
+ * The page's own text runs placed on the rendered image. Each run's rectangle is built in PDF
+ * space from its baseline, direction and font size, then mapped through the viewport, so
+ * rotated pages come out right. Pages with too little text are scans and get none.
+ */
+const readTextLayer = async (page: any, viewport: any, width: number, height: number): Promise<PdfTextLayer | undefined> => {
+  const content = await page.getTextContent();
+  const runs: PdfTextRun[] = [];
+  content.items.forEach((item: any) => {
+    const text = typeof item.str === 'string' ? item.str.trim() : '';
+    if (!text) return;
+    const [a, b, c, d, e, f] = item.transform;
+    const fontSize = Math.hypot(c, d) || Math.hypot(a, b);
+    const along = Math.hypot(a, b) || 1;
+    const up = Math.hypot(c, d) || 1;
+    const [dx, dy] = [(a / along) * item.width, (b / along) * item.width];
+    const [ux, uy] = [(c / up) * fontSize, (d / up) * fontSize];
+    const corners = [[e, f], [e + dx, f + dy], [e + dx + ux, f + dy + uy], [e + ux, f + uy]]
+      .map(([x, y]) => viewport.convertToViewportPoint(x, y) as number[]);
+    const xs = corners.map(p => p[0]);
+    const ys = corners.map(p => p[1]);
+    const left = Math.max(0, Math.min(...xs));
+    const top = Math.max(0, Math.min(...ys));
+    const right = Math.min(width, Math.max(...xs));
+    const bottom = Math.min(height, Math.max(...ys));
+    if (right <= left || bottom <= top) return;
+    runs.push({ text, box: { x: left / width, y: top / height, width: (right - left) / width, height: (bottom - top) / height } });
+  });
+  const characters = runs.reduce((sum, r) => sum + r.text.replace(/\s/g, '').length, 0);
+  return characters >= MIN_TEXT_LAYER_CHARS ? { width, height, runs } : undefined;
+};
+
+/**
+ * Rasterizes the selected pages of a PDF, handing each one to `onPage` as soon as it is
+ * rendered so the page list fills in while the rest of the file is still being read.
+ * Resolves with the number of pages rendered.
+ */
+export const renderPdfPages = async (
+  file: File, options: PdfImportOptions, onPage: (page: RenderedPdfPage) => void
+): Promise<number> => {
+  let pdf: any = null;
+  try {
+    pdf = await pdfjs.getDocument({
+      data: await file.arrayBuffer(),
+      // Character maps and fonts for PDFs that don't embed theirs
+      cMapUrl: `${PDFJS_ASSETS}cmaps/`,
       cMapPacked: true,
-      // standardFontDataUrl can also be added if specific errors persist
-    });
-    
-    const pdf = await loadingTask.promise;
-    const images: string[] = [];
+      standardFontDataUrl: `${PDFJS_ASSETS}standard_fonts/`,
+    }).promise;
+
+    const pageNumbers = parsePageRange(options.pageRange, pdf.numPages);
+    if (!pageNumbers) throw new Error(`"${options.pageRange}" is not a valid page range.`);
+    if (pageNumbers.length === 0) throw new Error(`The page range "${options.pageRange}" selects none of the ${pdf.numPages} pages of ${file.name}.`);
 
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const viewport = page.getViewport({ scale: 2.0 }); // High quality scale
+    const mimeType = options.imageFormat === 'png' ? 'image/png' : 'image/jpeg';
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      // PDF user space is 72 units per inch
+      const viewport = page.getViewport({ scale: options.dpi / 72 });
       const canvas = document.createElement("canvas");
       const context = canvas.getContext("2d");
-      
       if (!context) continue;
 
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+      const textLayer = options.useTextLayer ? await readTextLayer(page, viewport, canvas.width, canvas.height) : undefined;
+      onPage({ image: canvas.toDataURL(mimeType, PDF_JPEG_QUALITY), pageNumber, dpi: options.dpi, textLayer });
 
-      const renderContext = {
-        canvasContext: context,
-        viewport: viewport,
-      };
-
-      await page.render(renderContext).promise;
-      images.push(canvas.toDataURL("image/jpeg", 0.9));
+      // Free the page's canvas and PDF.js caches before the next one; large files add up quickly
+      page.cleanup();
+      canvas.width = canvas.height = 0;
     }
-    
-    return images;
+    return pageNumbers.length;
   } catch (error) {
     console.error("PDF conversion error details:", error);
-    // Provide a more descriptive error if it's worker related
     if (error instanceof Error && (error.message.includes("Worker") || error.message.includes("fake"))) {
-      throw new Error("The PDF processing engine failed to initialize correctly. This is often due to a network restriction or a missing worker script. Please check your internet connection and try again.");
+      throw new Error("The PDF processing engine failed to start. Reload the page and try again.");
     }
     throw error;
+  } finally {
+    pdf?.destroy();
   }
 };
 
+/**
+ * Builds a worksheet with real numeric, boolean and date cells (plus number formats)
+ * instead of text, using the inferred column types and any user overrides. Hand-edited
+ * cells get a comment.
+ */
+export const buildTypedSheet = (
+  rows: ExtractedDataRow[], columnTypes: Record<string, ColumnType> = {}, editedCells: string[] = []
+): XLSX.WorkSheet => {
+  const headers = getHeaders(rows);
+  const types = resolveColumnTypes(rows, columnTypes);
+  const formats = Object.fromEntries(headers.map(h => [h, detectColumnFormat(rows.map(r => r[h]))]));
+
+  const typedRows = rows.map(row => Object.fromEntries(headers.map(h => {
+    const parsed = parseTypedValue(row[h], types[h], formats[h]);
+    // Cells that don't fit the column type are written as they are
+    return [h, parsed === undefined ? row[h] : parsed];
+  })));
+
+  const ws = XLSX.utils.json_to_sheet(typedRows, { header: headers, cellDates: true });
+
+  headers.forEach((h, c) => {
+    const numberFormat = EXCEL_NUMBER_FORMATS[types[h]];
+    if (!numberFormat) return;
+    for (let r = 1; r <= rows.length; r++) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c })];
+      if (cell && (cell.t === 'n' || cell.t === 'd')) cell.z = numberFormat;
+    }
+  });
+
+  autoFitColumns(ws);
+  addEditComments(ws, headers, editedCells);
+  return ws;
+};
+
+const SUMMARY_SHEET = 'Summary';
+
+const saveWorkbook = (wb: XLSX.WorkBook, filename: string) => {
+  downloadBlob(new Blob([writeStyledWorkbook(wb)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), filename);
+};
+
 // Excel Export Functions
 export const downloadExcelMultiSheet = (pages: Page[], filename: string = 'digitized_data.xlsx') => {
   const wb = XLSX.utils.book_new();
-  
-  let hasData = false;
+  const used = new Set([SUMMARY_SHEET.toLowerCase()]);
+  const sheetNames = new Map<string, string>();
+
   pages.forEach((page, index) => {
     if (page.extractedData && page.extractedData.length > 0) {
-      const ws = XLSX.utils.json_to_sheet(page.extractedData);
-      const sheetName = `Page ${index + 1}`;
-      XLSX.utils.book_append_sheet(wb, ws, sheetName.substring(0, 31)); // Max 31 chars for sheet name
-      hasData = true;
+      const ws = buildTypedSheet(page.extractedData, page.columnTypes, page.editedCells);
+      const sheetName = uniqueSheetName(pageSheetName(page), used, `Page ${index + 1}`);
+      XLSX.utils.book_append_sheet(wb, ws, sheetName);
+      sheetNames.set(page.id, sheetName);
     }
   });
 
-  if (hasData) {
-    XLSX.writeFile(wb, filename);
+  if (sheetNames.size > 0) {
+    XLSX.utils.book_append_sheet(wb, buildSummarySheet(pages, sheetNames), SUMMARY_SHEET);
+    saveWorkbook(wb, filename);
   } else {
     alert("No extracted data available to export.");
   }
@@ -100,9 +204,19 @@ export const downloadExcelMultiSheet = (pages: Page[], filename: string = 'digit
 
 export const downloadExcelMasterSheet = (pages: Page[], filename: string = 'master_data.xlsx') => {
   const combinedData: any[] = [];
+  const editedCells: string[] = [];
+  // Overrides apply per column name, so the master sheet honours every page's choices
+  const columnTypes: Record<string, ColumnType> = {};
+  const sheetNames = new Map<string, string>();
   
   pages.forEach((page, index) => {
     if (page.extractedData) {
+      Object.assign(columnTypes, page.columnTypes);
+      const offset = combinedData.length;
+      (page.editedCells ?? []).forEach(key => {
+        const { rowIndex, column } = parseCellKey(key);
+        editedCells.push(cellKey(offset + rowIndex, column));
+      });
       page.extractedData.forEach(row => {
         combinedData.push({
           "Page Number": index + 1,
@@ -110,26 +224,118 @@ export const downloadExcelMasterSheet = (pages: Page[], filename: string = 'mast
           ...row
         });
       });
+      if (page.extractedData.length > 0) sheetNames.set(page.id, "Master Data");
     }
   });
 
   if (combinedData.length > 0) {
-    const ws = XLSX.utils.json_to_sheet(combinedData);
+    const ws = buildTypedSheet(combinedData, columnTypes, editedCells);
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Master Data");
-    XLSX.writeFile(wb, filename);
+    XLSX.utils.book_append_sheet(wb, buildSummarySheet(pages, sheetNames), SUMMARY_SHEET);
+    saveWorkbook(wb, filename);
   } else {
     alert("No extracted data available to export.");
   }
 };
 
-export const downloadCSV = (data: ExtractedDataRow[], filename: string = 'data.csv') => {
+// Merge-document mode: one sheet per stitched table, or every table on one sheet
+export const downloadExcelDocuments = (
+  tables: StitchedTable[], pages: Page[], singleSheet: boolean, filename: string = singleSheet ? 'master_data.xlsx' : 'digitized_data.xlsx'
+) => {
+  const filled = tables.filter(t => t.rows.length > 0);
+  if (filled.length === 0) {
+    alert("No extracted data available to export.");
+    return;
+  }
+
+  const wb = XLSX.utils.book_new();
+  const sheetNames = new Map<string, string>();
+  if (singleSheet) {
+    const rows = filled.flatMap(t => t.rows.map(row => ({ "Source File": t.sourceFile, ...row })));
+    const columnTypes = Object.assign({}, ...filled.map(t => t.columnTypes));
+    let offset = 0;
+    const editedCells = filled.flatMap(t => {
+      const keys = t.editedCells.map(key => {
+        const { rowIndex, column } = parseCellKey(key);
+        return cellKey(offset + rowIndex, column);
+      });
+      offset += t.rows.length;
+      return keys;
+    });
+    XLSX.utils.book_append_sheet(wb, buildTypedSheet(rows, columnTypes, editedCells), "Master Data");
+    filled.forEach(t => t.pageIds.forEach(id => sheetNames.set(id, "Master Data")));
+  } else {
+    const used = new Set([SUMMARY_SHEET.toLowerCase()]);
+    filled.forEach((table, index) => {
+      const name = uniqueSheetName(table.sourceFile.replace(/\.[a-z0-9]{2,5}$/i, ''), used, `Table ${index + 1}`);
+      XLSX.utils.book_append_sheet(wb, buildTypedSheet(table.rows, table.columnTypes, table.editedCells), name);
+      table.pageIds.forEach(id => sheetNames.set(id, name));
+    });
+  }
+  XLSX.utils.book_append_sheet(wb, buildSummarySheet(pages, sheetNames), SUMMARY_SHEET);
+  saveWorkbook(wb, filename);
+};
+
+// The reconciled table with notes on filled and disputed cells, plus a sheet listing every mismatch
+export const downloadExcelReconciliation = (
+  rows: ReconciledRow[], table: { rows: ExtractedDataRow[]; notes: Record<string, string> }, filename: string = 'reconciliation.xlsx'
+) => {
+  if (table.rows.length === 0) {
+    alert("Nothing to export.");
+    return;
+  }
+  const wb = XLSX.utils.book_new();
+  const reconciled = buildTypedSheet(table.rows);
+  addCellComments(reconciled, getHeaders(table.rows), table.notes);
+  XLSX.utils.book_append_sheet(wb, reconciled, "Reconciled");
+
+  const mismatches = rows.flatMap(row => row.mismatches.map(m => ({
+    "Key": row.key,
+    "Column": m.column,
+    "Scan Value": m.scanValue,
+    "Reference Value": m.referenceValue,
+  })));
+  const ws = XLSX.utils.json_to_sheet(mismatches, { header: ["Key", "Column", "Scan Value", "Reference Value"] });
+  autoFitColumns(ws);
+  XLSX.utils.book_append_sheet(wb, ws, "Mismatches");
+  saveWorkbook(wb, filename);
+};
+
+// Every sheet of an .xlsx, .xls or .csv file that has rows, with dates as ISO strings like extracted data
+export const readSpreadsheet = async (file: File): Promise<ReferenceTable[]> => {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  return wb.SheetNames.map(sheetName => {
+    const raw = XLSX.utils.sheet_to_json<Record<string, unknown>>(wb.Sheets[sheetName], { defval: null });
+    const rows: ExtractedDataRow[] = raw.map(row => Object.fromEntries(Object.entries(row).map(([column, value]) => [
+      column,
+      value instanceof Date ? toIsoDate(value) : value as ExtractedDataRow[string],
+    ])));
+    return { fileName: file.name, sheetName, headers: getHeaders(rows), rows };
+  }).filter(table => table.rows.length > 0);
+};
+
+export const downloadCSV = (data: ExtractedDataRow[], filename: string = 'data.csv', columnTypes?: Record<string, ColumnType>) => {
   if (!data || data.length === 0) {
     alert("No data available to export.");
     return;
   }
-  const ws = XLSX.utils.json_to_sheet(data);
+  const ws = buildTypedSheet(data, columnTypes);
   const wb = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(wb, ws, "Sheet1");
   XLSX.writeFile(wb, filename);
-};
\ No newline at end of file
+};
+
+export const downloadTextFile = (content: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), filename);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,173 @@
+import * as UTIF from "utif";
+import { ImportFileFormat } from "../types";
+import { MAX_DOCUMENT_SIZE_MB, MAX_IMAGE_SIZE_MB, PDF_JPEG_QUALITY, SUPPORTED_FILE_TYPES } from "../constants";
+import { fileToBase64 } from "./fileUtils";
+
+// Turns uploaded scanner and phone formats into images the browser and the models can read
+
+/**
+ * A file that can't be imported. The message is shown to the user next to the file name,
+ * so it says what is wrong with the file rather than how decoding failed.
+ */
+export class UnsupportedFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedFileError';
+  }
+}
+
+export const FORMAT_MIME_TYPES: Record<ImportFileFormat, string> = {
+  pdf: 'application/pdf',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+  bmp: 'image/bmp',
+};
+
+const FORMAT_LABELS: Record<ImportFileFormat, string> = {
+  pdf: 'PDF', jpeg: 'JPEG', png: 'PNG', webp: 'WebP', tiff: 'TIFF', heic: 'HEIC', bmp: 'BMP',
+};
+
+// ISO-BMFF brands of HEIC/HEIF stills (iPhone photos, some document cameras)
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+/**
+ * Identifies a file (or any blob of image bytes) by its first bytes. Browsers report HEIC and
+ * TIFF files with an empty or generic type, and a renamed file keeps its old extension, so
+ * neither is trusted.
+ */
+export const detectFileFormat = async (file: Blob): Promise<ImportFileFormat | null> => {
+  const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+  if (ascii(0, 5) === '%PDF-') return 'pdf';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'tiff';
+  if (ascii(4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(8, 12))) return 'heic';
+  if (ascii(0, 2) === 'BM') return 'bmp';
+  return null;
+};
+
+const supportedLabels = () => (Object.keys(FORMAT_MIME_TYPES) as ImportFileFormat[])
+  .filter(f => SUPPORTED_FILE_TYPES.includes(FORMAT_MIME_TYPES[f]))
+  .map(f => FORMAT_LABELS[f])
+  .join(', ');
+
+/**
+ * Checks an upload against the supported types and size limits before anything is decoded.
+ * PDFs and TIFFs can hold a whole document, so they get the larger allowance.
+ */
+export const validateUpload = async (file: File): Promise<ImportFileFormat> => {
+  const format = await detectFileFormat(file);
+  if (!format || !SUPPORTED_FILE_TYPES.includes(FORMAT_MIME_TYPES[format])) {
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toUpperCase() : 'this type';
+    throw new UnsupportedFileError(`${format ? FORMAT_LABELS[format] : extension} files aren't supported. Use ${supportedLabels()}.`);
+  }
+
+  const limitMb = format === 'pdf' || format === 'tiff' ? MAX_DOCUMENT_SIZE_MB : MAX_IMAGE_SIZE_MB;
+  if (file.size > limitMb * 1024 * 1024) {
+    throw new UnsupportedFileError(`${(file.size / 1024 / 1024).toFixed(1)} MB is over the ${limitMb} MB limit for ${FORMAT_LABELS[format]} files.`);
+  }
+  return format;
+};
+
+const toDataUrl = (canvas: HTMLCanvasElement, mimeType: string) => {
+  const url = canvas.toDataURL(mimeType, PDF_JPEG_QUALITY);
+  canvas.width = canvas.height = 0;
+  return url;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => fileToBase64(new File([blob], 'image', { type: blob.type }));
+
+// Drawn through a canvas because the model APIs don't accept BMP; PNG keeps it lossless
+const decodeBmp = async (file: File): Promise<string> => {
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new UnsupportedFileError('The BMP file could not be read. It may be damaged or use an unusual encoding.');
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return toDataUrl(canvas, 'image/png');
+};
+
+const decodeHeic = async (file: File): Promise<string> => {
+  // The HEIF decoder is large, so it is only loaded when a HEIC file is imported
+  const { default: heic2any } = await import("heic2any");
+  try {
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: PDF_JPEG_QUALITY });
+    return await blobToDataUrl(Array.isArray(result) ? result[0] : result);
+  } catch {
+    throw new UnsupportedFileError('The HEIC file could not be decoded. Export it as JPEG from the device and try again.');
+  }
+};
+
+// NewSubfileType bit 0 marks reduced-resolution copies (thumbnails) stored next to the real pages
+const isThumbnail = (ifd: UTIF.IFD) => (((ifd.t254 as number[] | undefined)?.[0] ?? 0) & 1) === 1;
+
+/**
+ * Decodes each page of a (multi-page) TIFF, handing them to `onPage` one at a time so only one
+ * page's pixels are held at once. Bilevel fax-style scans become PNG, everything else JPEG.
+ * Resolves with the number of pages decoded.
+ */
+const decodeTiff = async (file: File, onPage: (image: string, pageNumber: number, pageCount: number) => void): Promise<number> => {
+  const buffer = await file.arrayBuffer();
+  let ifds: UTIF.IFD[];
+  try {
+    ifds = UTIF.decode(buffer).filter(ifd => ifd.t256 && ifd.t257 && !isThumbnail(ifd));
+  } catch {
+    throw new UnsupportedFileError('The TIFF file could not be read. It may be damaged.');
+  }
+  if (ifds.length === 0) throw new UnsupportedFileError('The TIFF file contains no images.');
+
+  const skipped: number[] = [];
+  for (const [index, ifd] of ifds.entries()) {
+    try {
+      UTIF.decodeImage(buffer, ifd);
+      const rgba = UTIF.toRGBA8(ifd);
+      const canvas = document.createElement('canvas');
+      canvas.width = ifd.width;
+      canvas.height = ifd.height;
+      canvas.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height), 0, 0);
+      const bilevel = ((ifd.t258 as number[] | undefined)?.[0] ?? 1) === 1;
+      onPage(toDataUrl(canvas, bilevel ? 'image/png' : 'image/jpeg'), index + 1, ifds.length);
+    } catch (error) {
+      console.error(`TIFF page ${index + 1} of ${file.name} could not be decoded:`, error);
+      skipped.push(index + 1);
+    } finally {
+      // The decoded pixels stay on the IFD otherwise, and the IFD list lives until the loop ends
+      ifd.data = new Uint8Array(0);
+    }
+  }
+  if (skipped.length === ifds.length) throw new UnsupportedFileError('None of the TIFF pages could be decoded. The compression used may not be supported.');
+  if (skipped.length > 0) throw new UnsupportedFileError(`Page${skipped.length === 1 ? '' : 's'} ${skipped.join(', ')} could not be decoded and ${skipped.length === 1 ? 'was' : 'were'} left out.`);
+  return ifds.length;
+};
+
+/**
+ * Decodes a validated image upload into one data URL per page. JPEG, PNG and WebP are passed
+ * through untouched; TIFF, HEIC and BMP are converted. Pages reach `onPage` as they are ready.
+ */
+export const decodeImageFile = async (
+  file: File, format: Exclude<ImportFileFormat, 'pdf'>, onPage: (image: string, pageNumber: number, pageCount: number) => void
+): Promise<number> => {
+  switch (format) {
+    case 'tiff':
+      return decodeTiff(file, onPage);
+    case 'heic':
+      onPage(await decodeHeic(file), 1, 1);
+      return 1;
+    case 'bmp':
+      onPage(await decodeBmp(file), 1, 1);
+      return 1;
+    default:
+      // Typed by the detected format, not the browser's guess from the file name
+      onPage(await blobToDataUrl(file.slice(0, file.size, FORMAT_MIME_TYPES[format])), 1, 1);
+      return 1;
+  }
+};
@@ -0,0 +1,187 @@
+import { ImageProcessingSettings } from "../types";
+import { otsuThreshold } from "./imageGeometry";
+
+// Pixel filters on single-channel planes, applied to ImageData in place
+
+// Sauvola's dynamic range of the standard deviation for 8-bit images
+const SAUVOLA_R = 128;
+// Ink strokes thinner than this are removed before the background is estimated
+const BACKGROUND_TEXT_RADIUS = 7;
+const BACKGROUND_BLUR_RADIUS = 25;
+
+type Plane = Uint8ClampedArray;
+
+// Summed-area tables of values and squared values: any window's mean and variance in O(1)
+const integralImages = (plane: Plane, width: number, height: number) => {
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const sumSq = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSq = 0;
+    for (let x = 0; x < width; x++) {
+      const v = plane[y * width + x];
+      rowSum += v;
+      rowSq += v * v;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1] + rowSq;
+    }
+  }
+
+  return (x: number, y: number, radius: number) => {
+    const x0 = Math.max(0, x - radius);
+    const y0 = Math.max(0, y - radius);
+    const x1 = Math.min(width, x + radius + 1);
+    const y1 = Math.min(height, y + radius + 1);
+    const count = (x1 - x0) * (y1 - y0);
+    const area = (t: Float64Array) => t[y1 * stride + x1] - t[y0 * stride + x1] - t[y1 * stride + x0] + t[y0 * stride + x0];
+    const mean = area(sum) / count;
+    const variance = Math.max(0, area(sumSq) / count - mean * mean);
+    return { mean, std: Math.sqrt(variance) };
+  };
+};
+
+const boxBlur = (plane: Plane, width: number, height: number, radius: number): Plane => {
+  const stats = integralImages(plane, width, height);
+  const out = new Uint8ClampedArray(plane.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) out[y * width + x] = stats(x, y, radius).mean;
+  }
+  return out;
+};
+
+// Separable maximum filter (grayscale dilation): paper grows over dark text
+const maxFilter = (plane: Plane, width: number, height: number, radius: number): Plane => {
+  const horizontal = new Uint8ClampedArray(plane.length);
+  const out = new Uint8ClampedArray(plane.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let max = 0;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) max = Math.max(max, plane[y * width + k]);
+      horizontal[y * width + x] = max;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let max = 0;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) max = Math.max(max, horizontal[k * width + x]);
+      out[y * width + x] = max;
+    }
+  }
+  return out;
+};
+
+/**
+ * Shadow flattening: estimates the paper brightness around every pixel (text dilated away,
+ * then heavily blurred) and divides it out, so shaded paper becomes evenly white.
+ */
+export const flattenBackground = (plane: Plane, width: number, height: number, scale = 1): Plane => {
+  const textRadius = Math.max(1, Math.round(BACKGROUND_TEXT_RADIUS * scale));
+  const blurRadius = Math.max(1, Math.round(BACKGROUND_BLUR_RADIUS * scale));
+  const background = boxBlur(maxFilter(plane, width, height, textRadius), width, height, blurRadius);
+  const out = new Uint8ClampedArray(plane.length);
+  for (let i = 0; i < plane.length; i++) out[i] = (plane[i] * 255) / Math.max(1, background[i]);
+  return out;
+};
+
+// Despeckle: every pixel becomes the median of its (2r+1)² neighbourhood
+export const medianFilter = (plane: Plane, width: number, height: number, radius: number): Plane => {
+  const out = new Uint8ClampedArray(plane.length);
+  const neighbourhood: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      neighbourhood.length = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -radius; dx <= radius; dx++) {
+          neighbourhood.push(plane[yy * width + Math.min(width - 1, Math.max(0, x + dx))]);
+        }
+      }
+      neighbourhood.sort((a, b) => a - b);
+      out[y * width + x] = neighbourhood[neighbourhood.length >> 1];
+    }
+  }
+  return out;
+};
+
+// Unsharp mask: adds back the difference from a 3x3 blur; `amount` 0..100 maps to 0..2x
+export const sharpenPlane = (plane: Plane, width: number, height: number, amount: number): Plane => {
+  const blurred = boxBlur(plane, width, height, 1);
+  const factor = (amount / 100) * 2;
+  const out = new Uint8ClampedArray(plane.length);
+  for (let i = 0; i < plane.length; i++) out[i] = plane[i] + factor * (plane[i] - blurred[i]);
+  return out;
+};
+
+/**
+ * Black/white conversion. Global and Otsu use one level for the page; mean and Sauvola
+ * compare each pixel with its neighbourhood, which keeps text readable under shadows.
+ */
+export const binarize = (plane: Plane, width: number, height: number, settings: ImageProcessingSettings, scale = 1): Plane => {
+  const out = new Uint8ClampedArray(plane.length);
+  if (settings.binarization === 'global' || settings.binarization === 'otsu') {
+    const level = settings.binarization === 'otsu' ? otsuThreshold(plane) + 1 : settings.threshold;
+    for (let i = 0; i < plane.length; i++) out[i] = plane[i] >= level ? 255 : 0;
+    return out;
+  }
+
+  const stats = integralImages(plane, width, height);
+  const radius = Math.max(1, Math.floor((settings.adaptiveWindow * scale) / 2));
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { mean, std } = stats(x, y, radius);
+      const level = settings.binarization === 'sauvola'
+        ? mean * (1 + settings.sauvolaK * (std / SAUVOLA_R - 1))
+        : mean - settings.meanOffset;
+      out[y * width + x] = plane[y * width + x] > level ? 255 : 0;
+    }
+  }
+  return out;
+};
+
+const adjustPlane = (plane: Plane, settings: ImageProcessingSettings) => {
+  const contrastFactor = (259 * (settings.contrast + 255)) / (255 * (259 - settings.contrast));
+  for (let i = 0; i < plane.length; i++) {
+    plane[i] = contrastFactor * (plane[i] + settings.brightness - 128) + 128;
+  }
+};
+
+/**
+ * Runs the full filter chain on `image` in place: background flattening, brightness and
+ * contrast, despeckle, sharpening and binarization. Works on luminance when the result is
+ * grayscale or black/white, otherwise on each colour channel. `scale` is the size of `image`
+ * relative to the full-resolution page, so pixel-sized neighbourhoods look the same in previews.
+ */
+export const applyImageFilters = (image: ImageData, settings: ImageProcessingSettings, scale = 1): ImageData => {
+  const { data, width, height } = image;
+  const pixels = width * height;
+  const monochrome = settings.grayscale || settings.binarization !== 'off';
+
+  const planes: Plane[] = monochrome ? [new Uint8ClampedArray(pixels)] : [0, 1, 2].map(() => new Uint8ClampedArray(pixels));
+  for (let p = 0, i = 0; p < pixels; p++, i += 4) {
+    if (monochrome) {
+      planes[0][p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    } else {
+      planes[0][p] = data[i];
+      planes[1][p] = data[i + 1];
+      planes[2][p] = data[i + 2];
+    }
+  }
+
+  const filtered = planes.map(plane => {
+    let result = plane;
+    if (settings.flattenBackground) result = flattenBackground(result, width, height, scale);
+    adjustPlane(result, settings);
+    if (settings.medianRadius > 0) result = medianFilter(result, width, height, Math.max(1, Math.round(settings.medianRadius * scale)));
+    if (settings.sharpen > 0) result = sharpenPlane(result, width, height, settings.sharpen);
+    if (settings.binarization !== 'off') result = binarize(result, width, height, settings, scale);
+    return result;
+  });
+
+  for (let p = 0, i = 0; p < pixels; p++, i += 4) {
+    data[i] = filtered[0][p];
+    data[i + 1] = filtered[monochrome ? 0 : 1][p];
+    data[i + 2] = filtered[monochrome ? 0 : 2][p];
+  }
+  return image;
+};
@@ -0,0 +1,263 @@
+import { Point, Quad } from "../types";
+import { MAX_SKEW_ANGLE } from "../constants";
+
+// Pure pixel-level geometry on ImageData, so it can run on any canvas (or off the main thread)
+
+export const toGrayscale = (image: ImageData): Uint8ClampedArray => {
+  const { data, width, height } = image;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+};
+
+// Threshold that best separates the two classes of a bimodal histogram
+export const otsuThreshold = (gray: Uint8ClampedArray): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+const boxBlur = (gray: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+  const horizontal = new Uint8ClampedArray(gray.length);
+  const out = new Uint8ClampedArray(gray.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++, count++) sum += gray[y * width + k];
+      horizontal[y * width + x] = sum / count;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++, count++) sum += horizontal[k * width + x];
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+// Pixels of the largest 4-connected region of the mask
+const largestComponent = (mask: Uint8Array, width: number, height: number): number[] => {
+  const visited = new Uint8Array(mask.length);
+  let best: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length) {
+      const p = stack.pop()!;
+      component.push(p);
+      const x = p % width;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      neighbours.forEach(n => {
+        if (n >= 0 && n < mask.length && mask[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      });
+    }
+    if (component.length > best.length) best = component;
+  }
+  return best;
+};
+
+export const quadArea = (quad: Quad): number => {
+  let area = 0;
+  quad.forEach((p, i) => {
+    const q = quad[(i + 1) % 4];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Finds the four corners of a sheet of paper photographed against a darker background.
+ * The sheet is the largest bright region after blurring and Otsu thresholding; its corners
+ * are the extreme points along both diagonals. Returns normalized corners, or null when no
+ * distinct sheet is found (e.g. a flat scan that already fills the frame).
+ */
+export const detectDocumentQuad = (image: ImageData): Quad | null => {
+  const { width, height } = image;
+  const gray = boxBlur(toGrayscale(image), width, height, 2);
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  gray.forEach((v, i) => { mask[i] = v > threshold ? 1 : 0; });
+
+  const component = largestComponent(mask, width, height);
+  const coverage = component.length / gray.length;
+  if (coverage < 0.15 || coverage > 0.95) return null;
+
+  let tl = { x: 0, y: 0, score: Infinity };
+  let br = { x: 0, y: 0, score: -Infinity };
+  let tr = { x: 0, y: 0, score: -Infinity };
+  let bl = { x: 0, y: 0, score: Infinity };
+  component.forEach(p => {
+    const x = p % width;
+    const y = Math.floor(p / width);
+    if (x + y < tl.score) tl = { x, y, score: x + y };
+    if (x + y > br.score) br = { x, y, score: x + y };
+    if (x - y > tr.score) tr = { x, y, score: x - y };
+    if (x - y < bl.score) bl = { x, y, score: x - y };
+  });
+
+  const quad: Quad = [tl, tr, br, bl].map(p => ({ x: (p.x + 0.5) / width, y: (p.y + 0.5) / height })) as Quad;
+  // Degenerate corners (e.g. a blob, not a sheet) enclose much less than the region itself
+  return quadArea(quad) >= coverage * 0.7 ? quad : null;
+};
+
+/**
+ * Estimates the tilt of text lines by projection profiles: dark pixels are projected onto
+ * the vertical axis at candidate angles and the angle giving the sharpest peaks wins.
+ * Returns the rotation in degrees that straightens the page (0 when nothing is found).
+ */
+export const estimateSkewAngle = (image: ImageData, maxAngle: number = MAX_SKEW_ANGLE): number => {
+  const { width, height } = image;
+  const gray = toGrayscale(image);
+  const threshold = otsuThreshold(gray);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const darkCount = gray.reduce((n, v) => n + (v <= threshold ? 1 : 0), 0);
+  if (darkCount < 100) return 0;
+  // Sample at most ~40k ink pixels; profiles keep their shape
+  const step = Math.max(1, Math.floor(darkCount / 40000));
+  let seen = 0;
+  for (let p = 0; p < gray.length; p++) {
+    if (gray[p] > threshold) continue;
+    if (seen++ % step !== 0) continue;
+    xs.push(p % width);
+    ys.push(Math.floor(p / width));
+  }
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const bins = new Float64Array(diagonal * 2 + 1);
+  const score = (degrees: number) => {
+    const rad = (degrees * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) bins[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+    let sum = 0;
+    for (let i = 0; i < bins.length; i++) sum += bins[i] * bins[i];
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number, start: number) => {
+    let best = start;
+    let bestScore = score(start);
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const s = score(angle);
+      if (s > bestScore) {
+        bestScore = s;
+        best = angle;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-maxAngle, maxAngle, 0.5, 0);
+  const fine = search(coarse - 0.5, coarse + 0.5, 0.05, coarse);
+  // Lines tilted by +a are straightened by rotating -a
+  return Math.round(-fine * 100) / 100 || 0;
+};
+
+// Solves the 8 coefficients of the homography that maps each `from` corner onto its `to` corner
+export const perspectiveTransform = (from: Quad, to: Quad): number[] => {
+  const a: number[][] = [];
+  from.forEach((p, i) => {
+    const q = to[i];
+    a.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x, q.x]);
+    a.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y, q.y]);
+  });
+
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    if (Math.abs(a[col][col]) < 1e-12) throw new Error('Corners do not form a valid quadrilateral.');
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+};
+
+export const applyTransform = (h: number[], p: Point): Point => {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Output size of the flattened sheet: the longer of each pair of opposite edges
+export const flattenedSize = (quad: Quad): { width: number; height: number } => ({
+  width: Math.round(Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2]))),
+  height: Math.round(Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2]))),
+});
+
+/**
+ * Maps the quadrilateral `quad` (in source pixels) onto a flat rectangle, sampling the
+ * source bilinearly for every output pixel.
+ */
+export const warpPerspective = (source: ImageData, quad: Quad): ImageData => {
+  const { width, height } = flattenedSize(quad);
+  const output = new ImageData(Math.max(1, width), Math.max(1, height));
+  const rect: Quad = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const h = perspectiveTransform(rect, quad);
+  const src = source.data;
+  const out = output.data;
+  const sw = source.width;
+  const sh = source.height;
+
+  for (let y = 0; y < output.height; y++) {
+    for (let x = 0; x < output.width; x++) {
+      const { x: sx, y: sy } = applyTransform(h, { x: x + 0.5, y: y + 0.5 });
+      const fx = Math.min(sw - 1, Math.max(0, sx - 0.5));
+      const fy = Math.min(sh - 1, Math.max(0, sy - 0.5));
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const dx = fx - x0;
+      const dy = fy - y0;
+      const o = (y * output.width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[(y0 * sw + x0) * 4 + c] * (1 - dx) + src[(y0 * sw + x1) * 4 + c] * dx;
+        const bottom = src[(y1 * sw + x0) * 4 + c] * (1 - dx) + src[(y1 * sw + x1) * 4 + c] * dx;
+        out[o + c] = top * (1 - dy) + bottom * dy;
+      }
+    }
+  }
+  return output;
+};
@@ -0,0 +1,84 @@
+import { ImageProcessingSettings, Quad } from "../types";
+import { EDGE_DETECTION_SIZE, SKEW_ESTIMATION_SIZE } from "../constants";
+import { detectDocumentQuad, estimateSkewAngle, warpPerspective } from "./imageGeometry";
+import { applyImageFilters } from "./imageFilters";
+
+// The whole pre-processing pipeline on OffscreenCanvas, so it runs the same in a worker or on the page
+
+export interface DetectedGeometry {
+  corners: Quad | null;
+  skewAngle: number;
+}
+
+const createCanvas = (width: number, height: number) =>
+  new OffscreenCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+
+const context = (canvas: OffscreenCanvas) => canvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+
+const pixelsOf = (canvas: OffscreenCanvas) => context(canvas).getImageData(0, 0, canvas.width, canvas.height);
+
+// Draws the image turned by a multiple of 90 degrees, scaled down to fit `maxSize`
+const drawRotated = (source: ImageBitmap, rotation: number, maxSize = Infinity): OffscreenCanvas => {
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const w = source.width * scale;
+  const h = source.height * scale;
+  const canvas = rotation % 180 !== 0 ? createCanvas(h, w) : createCanvas(w, h);
+  const ctx = context(canvas);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(source, -w / 2, -h / 2, w, h);
+  return canvas;
+};
+
+// Flattens the document outlined by normalized `corners` into a rectangle
+const warpCanvas = (source: OffscreenCanvas, corners: Quad): OffscreenCanvas => {
+  const quad = corners.map(p => ({ x: p.x * source.width, y: p.y * source.height })) as Quad;
+  const warped = warpPerspective(pixelsOf(source), quad);
+  const canvas = createCanvas(warped.width, warped.height);
+  context(canvas).putImageData(warped, 0, 0);
+  return canvas;
+};
+
+// Fine rotation; the canvas grows to keep the corners and the new area is filled white like paper
+const skewCanvas = (source: OffscreenCanvas, degrees: number): OffscreenCanvas => {
+  const rad = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(rad));
+  const cos = Math.abs(Math.cos(rad));
+  const canvas = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  const ctx = context(canvas);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rad);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+/**
+ * Finds the sheet's corners on a downscaled copy, then estimates the remaining text skew
+ * on the flattened result.
+ */
+export const detectGeometry = (source: ImageBitmap, rotation: number): DetectedGeometry => {
+  const small = drawRotated(source, rotation, EDGE_DETECTION_SIZE);
+  const corners = detectDocumentQuad(pixelsOf(small));
+
+  let flattened = drawRotated(source, rotation, SKEW_ESTIMATION_SIZE);
+  if (corners) flattened = warpCanvas(flattened, corners);
+  return { corners, skewAngle: estimateSkewAngle(pixelsOf(flattened)) };
+};
+
+/**
+ * Renders a page with `settings`: quarter turns, perspective warp, fine deskew, then the
+ * pixel filters. `maxSize` caps the longest side for previews.
+ */
+export const renderPage = (source: ImageBitmap, settings: ImageProcessingSettings, maxSize = Infinity): OffscreenCanvas => {
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  let stage = drawRotated(source, settings.rotation, maxSize);
+  if (settings.corners) stage = warpCanvas(stage, settings.corners);
+  if (settings.skewAngle) stage = skewCanvas(stage, settings.skewAngle);
+
+  const pixels = pixelsOf(stage);
+  applyImageFilters(pixels, settings, scale);
+  context(stage).putImageData(pixels, 0, 0);
+  return stage;
+};
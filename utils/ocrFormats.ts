@@ -0,0 +1,206 @@
+import { TextLayerPage, TextLayerWord } from "./textLayer";
+
+// Archive outputs: the page images with their text positioned on top (hOCR, ALTO XML, searchable PDF)
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const round = (n: number) => Math.round(n);
+
+const byRow = (words: TextLayerWord[]): TextLayerWord[][] => {
+  const rows = new Map<number, TextLayerWord[]>();
+  words.forEach(w => rows.set(w.rowIndex, [...(rows.get(w.rowIndex) ?? []), w]));
+  return Array.from(rows.values());
+};
+
+const unionBox = (words: TextLayerWord[]) => {
+  const left = Math.min(...words.map(w => w.box.x));
+  const top = Math.min(...words.map(w => w.box.y));
+  const right = Math.max(...words.map(w => w.box.x + w.box.width));
+  const bottom = Math.max(...words.map(w => w.box.y + w.box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const bbox = (b: { x: number; y: number; width: number; height: number }) =>
+  `bbox ${round(b.x)} ${round(b.y)} ${round(b.x + b.width)} ${round(b.y + b.height)}`;
+
+/**
+ * hOCR 1.2: a table row becomes a paragraph and every cell one line holding one word, since
+ * only cell positions are known.
+ */
+export const buildHocr = (pages: TextLayerPage[], imageNames: string[]): string => {
+  const body = pages.map((page, p) => {
+    const paragraphs = byRow(page.words).map((row, r) => {
+      const lines = row.map((w, c) => {
+        const conf = w.confidence !== undefined ? `; x_wconf ${round(w.confidence * 100)}` : '';
+        return `     <span class="ocr_line" id="line_${p + 1}_${r + 1}_${c + 1}" title="${bbox(w.box)}">` +
+          `<span class="ocrx_word" id="word_${p + 1}_${r + 1}_${c + 1}" title="${bbox(w.box)}${conf}">${escapeXml(w.text)}</span></span>`;
+      });
+      return `    <p class="ocr_par" id="par_${p + 1}_${r + 1}" title="${bbox(unionBox(row))}">\n${lines.join('\n')}\n    </p>`;
+    });
+    return `  <div class="ocr_page" id="page_${p + 1}" title="image &quot;${escapeXml(imageNames[p])}&quot;; bbox 0 0 ${round(page.width)} ${round(page.height)}; ppageno ${p}">\n` +
+      `   <div class="ocr_carea" id="block_${p + 1}" title="bbox 0 0 ${round(page.width)} ${round(page.height)}">\n${paragraphs.join('\n')}\n   </div>\n  </div>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+ <head>
+  <title>${escapeXml(pages.length === 1 ? pages[0].name : 'Digitized pages')}</title>
+  <meta http-equiv="Content-Type" content="text/html;charset=utf-8" />
+  <meta name="ocr-system" content="smart-document-digitizer" />
+  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word" />
+ </head>
+ <body>
+${body.join('\n')}
+ </body>
+</html>
+`;
+};
+
+// ALTO v4: a TextBlock per table row, a TextLine per cell with the cell text as one String
+export const buildAlto = (pages: TextLayerPage[], imageNames: string[]): string => {
+  const layout = pages.map((page, p) => {
+    const blocks = byRow(page.words).map((row, r) => {
+      const block = unionBox(row);
+      const lines = row.map((w, c) => {
+        const pos = `HPOS="${round(w.box.x)}" VPOS="${round(w.box.y)}" WIDTH="${round(w.box.width)}" HEIGHT="${round(w.box.height)}"`;
+        const wc = w.confidence !== undefined ? ` WC="${w.confidence.toFixed(2)}"` : '';
+        return `          <TextLine ID="P${p + 1}_L${r + 1}_${c + 1}" ${pos}>\n            <String ID="P${p + 1}_S${r + 1}_${c + 1}" ${pos} CONTENT="${escapeXml(w.text)}"${wc}/>\n          </TextLine>`;
+      });
+      return `        <TextBlock ID="P${p + 1}_B${r + 1}" HPOS="${round(block.x)}" VPOS="${round(block.y)}" WIDTH="${round(block.width)}" HEIGHT="${round(block.height)}">\n${lines.join('\n')}\n        </TextBlock>`;
+    });
+    return `    <Page ID="P${p + 1}" PHYSICAL_IMG_NR="${p + 1}" WIDTH="${round(page.width)}" HEIGHT="${round(page.height)}">\n` +
+      `      <PrintSpace HPOS="0" VPOS="0" WIDTH="${round(page.width)}" HEIGHT="${round(page.height)}">\n${blocks.join('\n')}\n      </PrintSpace>\n    </Page>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">
+  <Description>
+    <MeasurementUnit>pixel</MeasurementUnit>
+    <sourceImageInformation>
+${imageNames.map(name => `      <fileName>${escapeXml(name)}</fileName>`).join('\n')}
+    </sourceImageInformation>
+  </Description>
+  <Layout>
+${layout.join('\n')}
+  </Layout>
+</alto>
+`;
+};
+
+export interface PdfPageImage {
+  jpeg: Uint8Array;
+  width: number; // Pixels
+  height: number;
+  dpi: number; // Converts pixels to page size
+}
+
+// Average Helvetica glyph width in text space units; only used to stretch the hidden text over its cell
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+// WinAnsi puts typographic punctuation, € and a few letters where Latin-1 has control codes (0x80-0x9F)
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '\u2018': 0x91, '\u2019': 0x92, '\u201c': 0x93,
+  '\u201d': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Text as WinAnsi codes (one char per byte); characters beyond it can't be shown with a standard font and become "?"
+const pdfString = (text: string) => {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    const c = code < 32 ? ' '
+      : WIN_ANSI_EXTRA[ch] !== undefined ? String.fromCharCode(WIN_ANSI_EXTRA[ch])
+      : code > 255 || (code >= 0x7f && code < 0xa0) ? '?'
+      : ch;
+    out += c === '\\' || c === '(' || c === ')' ? `\\${c}` : c;
+  }
+  return `(${out})`;
+};
+
+const latin1 = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+/**
+ * Minimal PDF 1.4 writer: every page shows its scan as a JPEG, with the words drawn on top in
+ * text render mode 3 (invisible), so the page looks like the original but can be searched and
+ * copied.
+ */
+export const buildSearchablePdf = (pages: TextLayerPage[], images: PdfPageImage[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? latin1(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // 1 catalog, 2 page tree, 3 font, then page, contents and image for each page
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((page, i) => {
+    const [pageId, contentsId, imageId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2];
+    const image = images[i];
+    const scale = 72 / image.dpi;
+    const pageWidth = image.width * scale;
+    const pageHeight = image.height * scale;
+    // Text layer coordinates are in pixels of the layer's own size, which may differ from the JPEG
+    const sx = pageWidth / page.width;
+    const sy = pageHeight / page.height;
+
+    const text = page.words.map(w => {
+      const size = Math.max(1, w.box.height * sy * 0.8);
+      const naturalWidth = [...w.text].length * size * AVERAGE_GLYPH_WIDTH;
+      const stretch = naturalWidth > 0 ? (w.box.width * sx / naturalWidth) * 100 : 100;
+      const x = w.box.x * sx;
+      // PDF y runs upwards from the bottom; the baseline sits a little above the box bottom
+      const y = pageHeight - (w.box.y + w.box.height) * sy + size * 0.2;
+      return `/F1 ${num(size)} Tf ${num(stretch)} Tz 1 0 0 1 ${num(x)} ${num(y)} Tm ${pdfString(w.text)} Tj`;
+    });
+    const contents = `q ${num(pageWidth)} 0 0 ${num(pageHeight)} 0 0 cm /Im0 Do Q\nBT 3 Tr\n${text.join('\n')}\nET`;
+    const contentBytes = latin1(contents);
+
+    object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] ` +
+      `/Resources << /Font << /F1 3 0 R >> /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentsId} 0 R >>`);
+    object(contentsId, `<< /Length ${contentBytes.length} >>`, contentBytes);
+    object(imageId, `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`, image.jpeg);
+  });
+
+  const xrefOffset = length;
+  const count = 4 + pages.length * 3;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let at = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, at);
+    at += chunk.length;
+  });
+  return pdf;
+};
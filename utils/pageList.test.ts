@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { Page } from "../types";
+import { duplicatePages, groupBySourceFile, mergeIntoOneFile, movePages, pageIdRange, splitIntoNewFile } from "./pageList";
+
+const page = (id: string, sourceFile: string, sourcePageNumber: number, extra: Partial<Page> = {}): Page => ({
+  id, name: `${sourceFile} - Page ${sourcePageNumber}`, originalImage: '', processedImage: null, extractedData: null,
+  status: 'idle', errorMessage: null, sourceFile, sourcePageNumber, ...extra,
+});
+
+// a, b, c are pages 1-3 of A; d is page 1 of B
+const pages = [page('a', 'A', 1), page('b', 'A', 2), page('c', 'A', 3), page('d', 'B', 1)];
+
+const layout = (list: Page[]) => list.map(p => `${p.id}:${p.sourceFile}#${p.sourcePageNumber}`);
+
+describe("movePages", () => {
+  it("renumbers the moved pages' file in its new order", () => {
+    expect(layout(movePages(pages, ['c'], 'a', 'before'))).toEqual(['c:A#1', 'a:A#2', 'b:A#3', 'd:B#1']);
+  });
+
+  it("keeps the relative order of several moved pages", () => {
+    expect(layout(movePages(pages, ['b', 'a'], 'd', 'after'))).toEqual(['c:A#1', 'd:B#1', 'a:A#2', 'b:A#3']);
+  });
+
+  it("leaves the list alone when a page is dropped onto itself", () => {
+    expect(movePages(pages, ['b'], 'b', 'after')).toBe(pages);
+  });
+});
+
+describe("duplicatePages", () => {
+  it("puts each copy after its page as the next page of its file", () => {
+    const { pages: result, copyIds } = duplicatePages(pages, ['a']);
+
+    expect(copyIds).toHaveLength(1);
+    expect(result[1]).toMatchObject({ id: copyIds[0], name: 'A - Page 1 (copy)' });
+    expect(layout(result).slice(2)).toEqual(['b:A#3', 'c:A#4', 'd:B#1']);
+    expect(result[1].sourcePageNumber).toBe(2);
+  });
+
+  it("doesn't copy work in progress", () => {
+    const { pages: result } = duplicatePages([page('a', 'A', 1, { status: 'extracting' }), page('b', 'A', 2, { status: 'complete' })], ['a', 'b']);
+    expect(result.map(p => p.status)).toEqual(['extracting', 'idle', 'complete', 'complete']);
+  });
+});
+
+describe("mergeIntoOneFile", () => {
+  it("moves the pages behind the first one and numbers them as one file", () => {
+    expect(layout(mergeIntoOneFile(pages, ['a', 'd']))).toEqual(['a:A#1', 'd:A#2', 'b:A#3', 'c:A#4']);
+  });
+
+  it("needs at least two pages", () => {
+    expect(mergeIntoOneFile(pages, ['a'])).toBe(pages);
+  });
+});
+
+describe("splitIntoNewFile", () => {
+  it("moves the pages into a new part, leaving the others' numbers so they aren't joined across the gap", () => {
+    expect(layout(splitIntoNewFile(pages, ['b']))).toEqual(['a:A#1', 'b:A (part 2)#1', 'c:A#3', 'd:B#1']);
+  });
+
+  it("gathers the pages behind the first one and picks a part name not yet used", () => {
+    const withPart = [...pages, page('e', 'A (part 2)', 1)];
+    expect(layout(splitIntoNewFile(withPart, ['a', 'c']))).toEqual(['a:A (part 3)#1', 'c:A (part 3)#2', 'b:A#2', 'd:B#1', 'e:A (part 2)#1']);
+  });
+});
+
+describe("groupBySourceFile", () => {
+  it("groups consecutive pages of a file, showing a file split up by reordering twice", () => {
+    const groups = groupBySourceFile([pages[0], pages[3], pages[1]]);
+    expect(groups.map(g => [g.sourceFile, g.pages.map(p => p.id)])).toEqual([['A', ['a']], ['B', ['d']], ['A', ['b']]]);
+  });
+});
+
+describe("pageIdRange", () => {
+  it("selects the pages between two ids in either direction", () => {
+    expect(pageIdRange(pages, 'c', 'a')).toEqual(['a', 'b', 'c']);
+    expect(pageIdRange(pages, 'gone', 'b')).toEqual(['b']);
+  });
+});
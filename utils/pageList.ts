@@ -0,0 +1,105 @@
+import { Page } from "../types";
+import { getSourceFile } from "./tableStitching";
+
+// Page list operations; all return a new array and leave the pages themselves untouched
+
+export const createPageId = () => Math.random().toString(36).substr(2, 9);
+
+export interface PageGroup {
+  sourceFile: string;
+  pages: Page[];
+}
+
+// Consecutive pages of the same file form a group; a file split up by reordering shows up more than once
+export const groupBySourceFile = (pages: Page[]): PageGroup[] => {
+  const groups: PageGroup[] = [];
+  pages.forEach(page => {
+    const sourceFile = getSourceFile(page);
+    const last = groups[groups.length - 1];
+    if (last?.sourceFile === sourceFile) last.pages.push(page);
+    else groups.push({ sourceFile, pages: [page] });
+  });
+  return groups;
+};
+
+// Ids from `fromId` to `toId` inclusive, in the order of `pages` (shift-click selection over the pages shown)
+export const pageIdRange = (pages: Page[], fromId: string, toId: string): string[] => {
+  const from = pages.findIndex(p => p.id === fromId);
+  const to = pages.findIndex(p => p.id === toId);
+  if (from < 0 || to < 0) return [toId];
+  return pages.slice(Math.min(from, to), Math.max(from, to) + 1).map(p => p.id);
+};
+
+// Renumbers the pages of `sourceFile` 1..n in list order, so merge mode treats them as consecutive
+const renumber = (pages: Page[], sourceFile: string): Page[] => {
+  let pageNumber = 0;
+  return pages.map(p => getSourceFile(p) === sourceFile ? { ...p, sourceFile, sourcePageNumber: ++pageNumber } : p);
+};
+
+const renumberFiles = (pages: Page[], changed: Page[]): Page[] =>
+  Array.from(new Set(changed.map(getSourceFile))).reduce(renumber, pages);
+
+// Puts the pages with `ids` (keeping their relative order) next to `targetId`, numbers untouched
+const reorder = (pages: Page[], ids: string[], targetId: string, position: 'before' | 'after'): Page[] => {
+  if (ids.includes(targetId)) return pages;
+  const moving = pages.filter(p => ids.includes(p.id));
+  const rest = pages.filter(p => !ids.includes(p.id));
+  const index = rest.findIndex(p => p.id === targetId);
+  if (index < 0 || moving.length === 0) return pages;
+  const at = position === 'before' ? index : index + 1;
+  return [...rest.slice(0, at), ...moving, ...rest.slice(at)];
+};
+
+// Moves the pages with `ids` (keeping their relative order) next to `targetId`; their files are
+// renumbered in the new order, which merge mode then stitches in
+export const movePages = (pages: Page[], ids: string[], targetId: string, position: 'before' | 'after'): Page[] => {
+  const moved = reorder(pages, ids, targetId, position);
+  return moved === pages ? pages : renumberFiles(moved, pages.filter(p => ids.includes(p.id)));
+};
+
+// Each copy goes right after its page, numbered as the next page of its file; extraction
+// results are copied too, running work is not
+export const duplicatePages = (pages: Page[], ids: string[]): { pages: Page[]; copyIds: string[] } => {
+  const copyIds: string[] = [];
+  const result = pages.flatMap(page => {
+    if (!ids.includes(page.id)) return [page];
+    const copy: Page = {
+      ...page,
+      id: createPageId(),
+      name: `${page.name} (copy)`,
+      sourceFile: getSourceFile(page),
+      status: page.status === 'queued' || page.status === 'extracting' ? 'idle' : page.status,
+    };
+    copyIds.push(copy.id);
+    return [page, copy];
+  });
+  return { pages: renumberFiles(result, pages.filter(p => ids.includes(p.id))), copyIds };
+};
+
+/**
+ * Makes the selected pages one document: they take the file of the first of them and move
+ * up behind it. Merge-document mode then stitches them into one table.
+ */
+export const mergeIntoOneFile = (pages: Page[], ids: string[]): Page[] => {
+  const selected = pages.filter(p => ids.includes(p.id));
+  if (selected.length < 2) return pages;
+  const [first, ...others] = selected;
+  const sourceFile = getSourceFile(first);
+  const moved = reorder(pages, others.map(p => p.id), first.id, 'after');
+  return renumber(moved.map(p => ids.includes(p.id) ? { ...p, sourceFile } : p), sourceFile);
+};
+
+// Moves the selected pages into a new document of their own, named after the first one's file
+// and gathered behind the first of them
+export const splitIntoNewFile = (pages: Page[], ids: string[]): Page[] => {
+  const selected = pages.filter(p => ids.includes(p.id));
+  if (selected.length === 0) return pages;
+  const base = getSourceFile(selected[0]);
+  const taken = new Set(pages.map(getSourceFile));
+  let part = 2;
+  while (taken.has(`${base} (part ${part})`)) part++;
+  const sourceFile = `${base} (part ${part})`;
+  const moved = reorder(pages, selected.slice(1).map(p => p.id), selected[0].id, 'after');
+  // The pages left behind keep their numbers, so merge mode won't join across the gap
+  return renumber(moved.map(p => ids.includes(p.id) ? { ...p, sourceFile } : p), sourceFile);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { PdfTextLayer, PdfTextRun } from "../types";
+import { buildTextTable, TextTable, toBoundingBox } from "./pdfTextTable";
+
+const PAGE = 1000; // Pixels; runs are placed in pixels and normalized like the PDF renderer's
+const LINE = 10;
+
+const run = (text: string, x: number, y: number): PdfTextRun => ({
+  text, box: { x: x / PAGE, y: y / PAGE, width: text.length * 6 / PAGE, height: LINE / PAGE },
+});
+
+const layer = (runs: PdfTextRun[]): PdfTextLayer => ({ width: PAGE, height: PAGE, runs });
+
+const texts = (table: TextTable) => table.rows.map(cells => cells.map(c => c?.text ?? null));
+
+describe("buildTextTable", () => {
+  it("bands cells into columns under a header row and joins wrapped lines onto their row", () => {
+    const table = buildTextTable(layer([
+      run('Date', 50, 100), run('Description', 200, 100), run('Amount', 500, 100),
+      run('2024-01-02', 50, 120), run('Office', 200, 120), run('supplies', 240, 120), run('12.50', 510, 120),
+      run('and toner', 200, 132),
+      run('2024-01-03', 50, 150), run('Rent', 200, 150), run('1,000.00', 495, 150),
+    ]));
+
+    expect(table.headers).toEqual(['Date', 'Description', 'Amount']);
+    expect(texts(table)).toEqual([
+      ['2024-01-02', 'Office supplies and toner', '12.50'],
+      ['2024-01-03', 'Rent', '1,000.00'],
+    ]);
+  });
+
+  it("puts a cell that skips a column under the column it lines up with", () => {
+    const table = buildTextTable(layer([
+      run('Item', 50, 100), run('Note', 200, 100), run('Total', 500, 100),
+      run('Pens', 50, 120), run('Blue ink', 200, 120), run('4.00', 505, 120),
+      run('Paper', 50, 140), run('9.00', 505, 140),
+    ]));
+
+    expect(texts(table)).toEqual([['Pens', 'Blue ink', '4.00'], ['Paper', null, '9.00']]);
+  });
+
+  it("takes years above columns of figures as the header", () => {
+    const table = buildTextTable(layer([
+      run('Revenue', 50, 100), run('2023', 300, 100), run('2024', 500, 100),
+      run('Sales', 50, 120), run('1,200', 295, 120), run('1,500', 495, 120),
+      run('Fees', 50, 140), run('300', 300, 140), run('350', 500, 140),
+    ]));
+
+    expect(table.headers).toEqual(['Revenue', '2023', '2024']);
+    expect(texts(table)[0]).toEqual(['Sales', '1,200', '1,500']);
+  });
+
+  it("keeps a first line as data when its year is the value of a column of years", () => {
+    const table = buildTextTable(layer([
+      run('Widget', 50, 100), run('2019', 300, 100), run('15.00', 500, 100),
+      run('Gadget', 50, 120), run('2021', 300, 120), run('9.50', 500, 120),
+    ]));
+
+    expect(table.headers).toEqual(['Column 1', 'Column 2', 'Column 3']);
+    expect(texts(table)).toEqual([['Widget', '2019', '15.00'], ['Gadget', '2021', '9.50']]);
+  });
+
+  it("gives repeated header names a suffix no other column has", () => {
+    const table = buildTextTable(layer([
+      run('Amount', 50, 100), run('Amount', 200, 100), run('Amount 2', 350, 100),
+      run('1.00', 50, 120), run('2.00', 200, 120), run('3.00', 350, 120),
+    ]));
+
+    expect(table.headers).toEqual(['Amount', 'Amount 3', 'Amount 2']);
+  });
+
+  it("reads a page without a table as one column of lines", () => {
+    const table = buildTextTable(layer([run('Quarterly report', 50, 100), run('All figures in USD', 50, 120)]));
+
+    expect(table.headers).toEqual(['Text']);
+    expect(texts(table)).toEqual([['Quarterly report'], ['All figures in USD']]);
+  });
+});
+
+describe("toBoundingBox", () => {
+  it("normalizes a cell rectangle to the page", () => {
+    expect(toBoundingBox({ x: 100, y: 50, width: 200, height: 25 }, { width: 400, height: 100, runs: [] }))
+      .toEqual({ x: 0.25, y: 0.5, width: 0.5, height: 0.25 });
+  });
+});
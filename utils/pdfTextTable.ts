@@ -0,0 +1,184 @@
+import { BoundingBox, PdfTextLayer } from "../types";
+
+// Rebuilds a table from the positioned text runs of a born-digital PDF page
+
+// Runs on one line closer than this (in line heights) belong to the same cell; a column gap is wider
+const CELL_GAP = 1.0;
+// A gap wider than this (in line heights) between two runs of a cell is a word space
+const WORD_GAP = 0.15;
+// A single-cell line within this distance (in line heights) below a row continues that row's cell
+const WRAP_DISTANCE = 1.6;
+
+interface Rect { x: number; y: number; width: number; height: number } // Pixels
+
+export interface TextCell {
+  text: string;
+  rect: Rect;
+}
+
+interface TextLine {
+  cells: TextCell[];
+  top: number;
+  bottom: number;
+  height: number;
+}
+
+export interface TextTable {
+  headers: string[];
+  rows: (TextCell | null)[][]; // One entry per header
+}
+
+const union = (rects: Rect[]): Rect => {
+  const left = Math.min(...rects.map(r => r.x));
+  const top = Math.min(...rects.map(r => r.y));
+  const right = Math.max(...rects.map(r => r.x + r.width));
+  const bottom = Math.max(...rects.map(r => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const center = (r: Rect) => r.y + r.height / 2;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+const isNumeric = (text: string) => /^[-+(]?[$€£¥]?\s*[\d.,]+%?\)?$/.test(text.trim());
+
+const isYear = (text: string) => /^(19|20)\d{2}$/.test(text.trim());
+
+// Runs sharing a baseline band form a line; within it, runs close together form one cell
+const toLines = (layer: PdfTextLayer): TextLine[] => {
+  const runs = layer.runs
+    .map(r => ({ text: r.text, rect: { x: r.box.x * layer.width, y: r.box.y * layer.height, width: r.box.width * layer.width, height: r.box.height * layer.height } }))
+    .sort((a, b) => center(a.rect) - center(b.rect));
+
+  const groups: TextCell[][] = [];
+  runs.forEach(run => {
+    const last = groups[groups.length - 1];
+    const lineRect = last && union(last.map(r => r.rect));
+    if (last && Math.abs(center(run.rect) - center(lineRect)) < Math.min(run.rect.height, lineRect.height) / 2) last.push(run);
+    else groups.push([run]);
+  });
+
+  return groups.map(group => {
+    const height = median(group.map(r => r.rect.height));
+    const cells: TextCell[] = [];
+    [...group].sort((a, b) => a.rect.x - b.rect.x).forEach(run => {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? run.rect.x - (cell.rect.x + cell.rect.width) : Infinity;
+      if (cell && gap < CELL_GAP * height) {
+        cells[cells.length - 1] = { text: cell.text + (gap > WORD_GAP * height ? ' ' : '') + run.text, rect: union([cell.rect, run.rect]) };
+      } else {
+        cells.push({ ...run });
+      }
+    });
+    const rect = union(cells.map(c => c.rect));
+    return { cells, top: rect.y, bottom: rect.y + rect.height, height };
+  });
+};
+
+// Column bands: cell extents of the table lines, merged where they overlap
+const toColumns = (lines: TextLine[]): { left: number; right: number }[] => {
+  const spans = lines.flatMap(l => l.cells.map(c => ({ left: c.rect.x, right: c.rect.x + c.rect.width })))
+    .sort((a, b) => a.left - b.left);
+  const columns: { left: number; right: number }[] = [];
+  spans.forEach(span => {
+    const last = columns[columns.length - 1];
+    if (last && span.left <= last.right) last.right = Math.max(last.right, span.right);
+    else columns.push({ ...span });
+  });
+  return columns;
+};
+
+// The column a cell overlaps most, or the nearest one when it falls in a gap
+const columnOf = (cell: TextCell, columns: { left: number; right: number }[]) => {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach((col, i) => {
+    const overlap = Math.min(col.right, cell.rect.x + cell.rect.width) - Math.max(col.left, cell.rect.x);
+    if (overlap > bestScore) {
+      bestScore = overlap;
+      best = i;
+    }
+  });
+  return best;
+};
+
+/**
+ * Finds the table on the page: lines with about as many cells as the most common multi-cell
+ * line mark its extent, their cell extents give the columns, and a first line of labels (words,
+ * or years above columns of figures) becomes the header. A line with a single cell just below a row is wrapped text of that row.
+ * Pages without such lines come back as one "Text" column with a row per line.
+ */
+export const buildTextTable = (layer: PdfTextLayer): TextTable => {
+  const lines = toLines(layer);
+  const multi = lines.filter(l => l.cells.length >= 2);
+  const counts = new Map<number, number>();
+  multi.forEach(l => counts.set(l.cells.length, (counts.get(l.cells.length) ?? 0) + 1));
+  const typical = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0] ?? 0;
+  const isTableLine = (l: TextLine) => l.cells.length >= Math.max(2, typical - 1);
+
+  const first = lines.findIndex(isTableLine);
+  const last = lines.length - 1 - [...lines].reverse().findIndex(isTableLine);
+  if (first < 0 || first === last) {
+    return { headers: ['Text'], rows: lines.map(l => [{ text: l.cells.map(c => c.text).join(' '), rect: union(l.cells.map(c => c.rect)) }]) };
+  }
+
+  const region = lines.slice(first, last + 1);
+  const columns = toColumns(region.filter(isTableLine));
+
+  let body = region;
+  let headers = columns.map((_, i) => `Column ${i + 1}`);
+  const top = region[0];
+  // Years are column labels in comparative statements ("2023 | 2024"), unless the column holds years
+  const below = region.slice(1, 3).flatMap(l => l.cells);
+  const isLabel = (c: TextCell) => /\p{L}/u.test(c.text) && !isNumeric(c.text)
+    || isYear(c.text) && !below.some(b => columnOf(b, columns) === columnOf(c, columns) && isYear(b.text));
+  if (top.cells.every(isLabel)) {
+    const named = [...headers];
+    top.cells.forEach(c => {
+      const i = columnOf(c, columns);
+      named[i] = named[i].startsWith('Column ') ? c.text : `${named[i]} ${c.text}`;
+    });
+    // Duplicate header names would collapse into one key, so would a suffix another header already has
+    const taken = new Set<string>();
+    headers = named.map(h => {
+      let name = h;
+      for (let n = 2; taken.has(name) || (name !== h && named.includes(name)); n++) name = `${h} ${n}`;
+      taken.add(name);
+      return name;
+    });
+    body = region.slice(1);
+  }
+
+  const rows: (TextCell | null)[][] = [];
+  let previous: TextLine | null = null;
+  body.forEach(line => {
+    const row = rows[rows.length - 1];
+    const wrapped = row && previous && line.cells.length === 1 && line.top - previous.bottom < WRAP_DISTANCE * line.height;
+    if (wrapped) {
+      const i = columnOf(line.cells[0], columns);
+      const cell = row[i];
+      row[i] = cell ? { text: `${cell.text} ${line.cells[0].text}`, rect: union([cell.rect, line.cells[0].rect]) } : line.cells[0];
+    } else {
+      const cells: (TextCell | null)[] = columns.map(() => null);
+      line.cells.forEach(c => {
+        const i = columnOf(c, columns);
+        cells[i] = cells[i] ? { text: `${cells[i]!.text} ${c.text}`, rect: union([cells[i]!.rect, c.rect]) } : c;
+      });
+      rows.push(cells);
+    }
+    previous = line;
+  });
+
+  return { headers, rows };
+};
+
+// A cell rectangle as a box normalized to the page image
+export const toBoundingBox = (rect: Rect, layer: PdfTextLayer): BoundingBox => ({
+  x: rect.x / layer.width,
+  y: rect.y / layer.height,
+  width: rect.width / layer.width,
+  height: rect.height / layer.height,
+});
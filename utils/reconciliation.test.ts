@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { ExtractedDataRow, ReconcileColumn, ReferenceTable } from "../types";
+import { reconcile } from "./reconciliation";
+
+const referenceTable = (rows: ExtractedDataRow[]): ReferenceTable => ({
+  fileName: 'ledger.xlsx', sheetName: 'Sheet1', headers: Object.keys(rows[0]), rows,
+});
+
+const columns: ReconcileColumn[] = [
+  { reference: 'Invoice', scan: 'Invoice', isKey: true },
+  { reference: 'Amount', scan: 'Amount', isKey: false },
+];
+
+describe("reconcile", () => {
+  it("matches numeric keys even when one scanned key was misread as text", () => {
+    const scan = [
+      { Invoice: '1001', Amount: '$10.00' },
+      { Invoice: '1002', Amount: '$20.00' },
+      { Invoice: 'l003', Amount: '$30.00' },
+    ];
+    const reference = referenceTable([
+      { Invoice: 1001, Amount: 10 },
+      { Invoice: 1002, Amount: 20 },
+      { Invoice: 1003, Amount: 30 },
+    ]);
+
+    const rows = reconcile(scan, reference, columns);
+
+    expect(rows.map(r => [r.key, r.status])).toEqual([
+      ['1001', 'matched'],
+      ['1002', 'matched'],
+      ['1003', 'reference-only'],
+      ['l003', 'scan-only'],
+    ]);
+  });
+
+  it("compares amounts written differently on each side and reports disagreements", () => {
+    const scan = [{ Invoice: 'A-1', Amount: '$1,200.50' }, { Invoice: 'A-2', Amount: '$99.00' }];
+    const reference = referenceTable([{ Invoice: 'a-1', Amount: 1200.5 }, { Invoice: 'A-2', Amount: 100 }]);
+
+    const rows = reconcile(scan, reference, columns);
+
+    expect(rows.map(r => r.status)).toEqual(['matched', 'mismatch']);
+    expect(rows[1].mismatches).toEqual([{ column: 'Amount', scanValue: '$99.00', referenceValue: 100 }]);
+  });
+
+  it("matches nothing without a key column", () => {
+    expect(reconcile([{ Invoice: '1' }], referenceTable([{ Invoice: 1 }]), [{ ...columns[0], isKey: false }])).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { CellMismatch, ExtractedDataRow, ReconcileColumn, ReconciledRow, ReconcileStatus, ReferenceTable } from "../types";
+import { ColumnFormat, detectColumnFormat, inferColumnType, normalizeCell, parseDate, parseNumber, toIsoDate } from "./columnTypes";
+import { cellKey } from "./tableUtils";
+
+// Checks extracted rows against an imported reference table (e.g. a partial ledger)
+
+// Numbers closer than this are the same amount; OCR'd cents and spreadsheet floats rarely agree exactly
+const NUMBER_TOLERANCE = 0.005;
+
+type Value = ExtractedDataRow[string];
+
+const normalizeLabel = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isBlank = (value: Value | undefined) => value === null || value === undefined || String(value).trim() === '';
+
+const normalizeText = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Pairs every reference column with the extracted column of the same name (ignoring case and
+ * punctuation). No key is preselected, since a wrong guess would silently mismatch everything.
+ */
+export const defaultReconcileColumns = (reference: ReferenceTable, scanHeaders: string[]): ReconcileColumn[] => {
+  const byLabel = new Map(scanHeaders.map(h => [normalizeLabel(h), h]));
+  return reference.headers.map(column => ({ reference: column, scan: byLabel.get(normalizeLabel(column)) ?? null, isKey: false }));
+};
+
+// Each side of a column is typed on its own, so "$1,200.50" on paper equals 1200.5 in the sheet
+const columnReader = (rows: ExtractedDataRow[], column: string) => {
+  const values = rows.map(r => r[column]);
+  const type = inferColumnType(values);
+  const format: ColumnFormat = detectColumnFormat(values);
+  return (row: ExtractedDataRow): Value => {
+    const value = row[column];
+    if (isBlank(value)) return null;
+    const normalized = normalizeCell(value, type, format);
+    return typeof normalized === 'string' ? normalizeText(normalized) : normalized;
+  };
+};
+
+// Keys are read cell by cell: a column type would turn a whole column of ids to text over one
+// misread cell ("l003"), and then none of its ids would meet the reference's numbers
+const keyReader = (rows: ExtractedDataRow[], column: string) => {
+  const format = detectColumnFormat(rows.map(r => r[column]));
+  return (row: ExtractedDataRow): Value => {
+    const value = row[column];
+    if (isBlank(value)) return null;
+    const number = parseNumber(value, format);
+    if (number !== null) return number;
+    const date = parseDate(value, format);
+    return date ? toIsoDate(date) : normalizeText(String(value));
+  };
+};
+
+const sameValue = (a: Value, b: Value) =>
+  typeof a === 'number' && typeof b === 'number' ? Math.abs(a - b) < NUMBER_TOLERANCE : String(a) === String(b);
+
+const keyPart = (value: Value) => typeof value === 'number' ? value.toFixed(2) : String(value);
+
+/**
+ * Matches scan rows to reference rows on the key columns and compares the other paired columns.
+ * A key that appears more than once is matched in order of appearance. A value only counts as a
+ * mismatch when both sides have one; a blank on either side is a gap, not a disagreement.
+ * Rows come back in reference order, with rows found only in the scan at the end.
+ */
+export const reconcile = (scanRows: ExtractedDataRow[], reference: ReferenceTable, columns: ReconcileColumn[]): ReconciledRow[] => {
+  const paired = columns.filter(c => c.scan);
+  const keys = paired.filter(c => c.isKey);
+  if (keys.length === 0) return [];
+
+  const readers = paired.map(c => ({
+    column: c,
+    scan: columnReader(scanRows, c.scan!),
+    reference: columnReader(reference.rows, c.reference),
+  }));
+  const keyReaders = keys.map(c => ({
+    column: c,
+    scan: keyReader(scanRows, c.scan!),
+    reference: keyReader(reference.rows, c.reference),
+  }));
+  const displayKey = (row: ExtractedDataRow, side: 'scan' | 'reference') =>
+    keyReaders.map(r => String(row[side === 'scan' ? r.column.scan! : r.column.reference] ?? '').trim()).join(' / ');
+  const matchKey = (row: ExtractedDataRow, side: 'scan' | 'reference') => {
+    const parts = keyReaders.map(r => r[side](row));
+    return parts.some(p => p === null) ? null : parts.map(keyPart).join('\u0000');
+  };
+
+  const waiting = new Map<string, number[]>();
+  reference.rows.forEach((row, index) => {
+    const key = matchKey(row, 'reference');
+    if (key !== null) waiting.set(key, [...(waiting.get(key) ?? []), index]);
+  });
+
+  const matches = new Map<number, ExtractedDataRow>();
+  const scanOnly: ReconciledRow[] = [];
+  scanRows.forEach(row => {
+    const key = matchKey(row, 'scan');
+    const index = key === null ? undefined : waiting.get(key)?.shift();
+    if (index === undefined) {
+      scanOnly.push({ status: 'scan-only', key: displayKey(row, 'scan'), scanRow: row, referenceRow: null, mismatches: [] });
+    } else {
+      matches.set(index, row);
+    }
+  });
+
+  const referenceRows = reference.rows.map((referenceRow, index): ReconciledRow => {
+    const scanRow = matches.get(index);
+    if (!scanRow) return { status: 'reference-only', key: displayKey(referenceRow, 'reference'), scanRow: null, referenceRow, mismatches: [] };
+    const mismatches: CellMismatch[] = readers
+      .filter(r => !r.column.isKey)
+      .filter(r => {
+        const [a, b] = [r.scan(scanRow), r.reference(referenceRow)];
+        return a !== null && b !== null && !sameValue(a, b);
+      })
+      .map(r => ({ column: r.column.reference, scanValue: scanRow[r.column.scan!] ?? null, referenceValue: referenceRow[r.column.reference] ?? null }));
+    return { status: mismatches.length ? 'mismatch' : 'matched', key: displayKey(referenceRow, 'reference'), scanRow, referenceRow, mismatches };
+  });
+
+  return [...referenceRows, ...scanOnly];
+};
+
+export const RECONCILE_STATUS_COLUMN = 'Reconciliation';
+
+export const RECONCILE_STATUS_LABELS: Record<ReconcileStatus, string> = {
+  'matched': 'Matched',
+  'mismatch': 'Mismatch',
+  'scan-only': 'Only in scan',
+  'reference-only': 'Only in reference',
+};
+
+/**
+ * The reconciled table: the reference rows, their blanks filled from the scan, followed by the
+ * rows only the scan has. Extracted columns without a reference counterpart are appended.
+ * Mismatching cells keep the reference value; `notes` (by cell key) record what the scan read.
+ */
+export const buildReconciledTable = (
+  rows: ReconciledRow[], reference: ReferenceTable, columns: ReconcileColumn[], scanHeaders: string[]
+): { rows: ExtractedDataRow[]; notes: Record<string, string> } => {
+  const scanFor = new Map(columns.filter(c => c.scan).map(c => [c.reference, c.scan!]));
+  const paired = new Set(scanFor.values());
+  const extraColumns = scanHeaders.filter(h => !paired.has(h) && !reference.headers.includes(h));
+  const notes: Record<string, string> = {};
+
+  const table = rows.map((row, rowIndex) => {
+    const out: ExtractedDataRow = { [RECONCILE_STATUS_COLUMN]: RECONCILE_STATUS_LABELS[row.status] };
+    reference.headers.forEach(column => {
+      const referenceValue = row.referenceRow?.[column] ?? null;
+      const scanColumn = scanFor.get(column);
+      const scanValue = row.scanRow && scanColumn ? row.scanRow[scanColumn] ?? null : null;
+      out[column] = isBlank(referenceValue) ? scanValue : referenceValue;
+      if (row.referenceRow && isBlank(referenceValue) && !isBlank(scanValue)) {
+        notes[cellKey(rowIndex, column)] = 'Filled in from the scan';
+      }
+      const mismatch = row.mismatches.find(m => m.column === column);
+      if (mismatch) notes[cellKey(rowIndex, column)] = `Scan reads: ${mismatch.scanValue}`;
+    });
+    extraColumns.forEach(column => { out[column] = row.scanRow?.[column] ?? null; });
+    return out;
+  });
+
+  return { rows: table, notes };
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { CellProvenance, ExtractedDataRow } from "../types";
+import { alignRows, mergeStrips, planStrips, StripBounds, StripResult } from "./stripMerge";
+import { cellKey } from "./tableUtils";
+
+const row = (Item: string, Qty = '1'): ExtractedDataRow => ({ Item, Qty });
+
+// A strip's reading, each row placed at its vertical middle on the page
+const strip = (bounds: StripBounds, rows: [ExtractedDataRow, number][]): StripResult => {
+  const span = bounds.bottom - bounds.top;
+  const provenance: Record<string, CellProvenance> = {};
+  rows.forEach(([cells, center], rowIndex) => Object.keys(cells).forEach(column => {
+    provenance[cellKey(rowIndex, column)] = { box: { x: 0, y: (center - bounds.top) / span - 0.01, width: 0.1, height: 0.02 } };
+  }));
+  return { ...bounds, result: { rows: rows.map(([cells]) => cells), provenance } };
+};
+
+// Strips read without cell positions
+const plainStrip = (bounds: StripBounds, rows: ExtractedDataRow[]): StripResult => ({ ...bounds, result: { rows } });
+
+const items = (rows: ExtractedDataRow[]) => rows.map(r => `${r.Item}:${r.Qty}`);
+
+describe("planStrips", () => {
+  it("covers the page with one strip", () => {
+    expect(planStrips(1, 0.15)).toEqual([{ top: 0, bottom: 1 }]);
+  });
+
+  it("splits the page into equal strips sharing the overlap with the next", () => {
+    const strips = planStrips(3, 0.15);
+    const height = strips[0].bottom - strips[0].top;
+
+    expect(strips[0].top).toBe(0);
+    expect(strips[2].bottom).toBe(1);
+    strips.forEach(s => expect(s.bottom - s.top).toBeCloseTo(height));
+    strips.slice(1).forEach((s, i) => expect(strips[i].bottom - s.top).toBeCloseTo(height * 0.15));
+  });
+});
+
+describe("alignRows", () => {
+  it("pairs the rows both strips read, skipping rows only one has", () => {
+    expect(alignRows([row('A'), row('B'), row('C')], [row('B'), row('X'), row('C')])).toEqual([[1, 0], [2, 2]]);
+  });
+
+  it("pairs a row cut short by the edge with its full reading", () => {
+    expect(alignRows([{ Item: 'B', Qty: '' }], [row('B', '12')])).toEqual([[0, 0]]);
+  });
+
+  it("pairs identical rows one to one", () => {
+    expect(alignRows([row('X'), row('X')], [row('X'), row('X')])).toEqual([[0, 0], [1, 1]]);
+  });
+
+  it("does not pair rows that mostly disagree", () => {
+    expect(alignRows([row('C', '1')], [row('C', '12')])).toEqual([]);
+  });
+});
+
+describe("mergeStrips", () => {
+  const [upper, lower] = planStrips(2, 0.2); // Overlap from 0.44 to 0.56
+
+  it("keeps the full reading of a row cut by the strip edge", () => {
+    const merged = mergeStrips([
+      strip(upper, [[row('A'), 0.2], [row('B'), 0.48], [row('C', '1'), 0.55]]), // Qty of C clipped from "12"
+      strip(lower, [[row('B'), 0.48], [row('C', '12'), 0.55], [row('D'), 0.8]]),
+    ]);
+
+    expect(items(merged.rows)).toEqual(['A:1', 'B:1', 'C:12', 'D:1']);
+    expect(merged.provenance?.[cellKey(2, 'Qty')]?.box?.y).toBeCloseTo(0.54);
+  });
+
+  it("drops the header row a later strip reads again", () => {
+    const merged = mergeStrips([
+      plainStrip(upper, [row('A'), row('B')]),
+      plainStrip(lower, [{ Item: 'Item', Qty: 'Qty' }, row('B'), row('C')]),
+    ]);
+
+    expect(items(merged.rows)).toEqual(['A:1', 'B:1', 'C:1']);
+  });
+
+  it("fills a row read partly by one strip from the other's reading", () => {
+    const merged = mergeStrips([
+      plainStrip(upper, [row('A'), row('B'), { Item: 'C' }]),
+      plainStrip(lower, [row('B'), row('C', '12'), row('D')]),
+    ]);
+
+    expect(items(merged.rows)).toEqual(['A:1', 'B:1', 'C:12', 'D:1']);
+  });
+
+  it("keeps identical rows that are really on the page twice", () => {
+    const merged = mergeStrips([
+      strip(upper, [[row('A'), 0.2], [row('X'), 0.47], [row('X'), 0.52]]),
+      strip(lower, [[row('X'), 0.47], [row('X'), 0.52], [row('D'), 0.8]]),
+    ]);
+
+    expect(items(merged.rows)).toEqual(['A:1', 'X:1', 'X:1', 'D:1']);
+  });
+
+  it("keeps identical rows outside the overlap", () => {
+    const merged = mergeStrips([
+      strip(upper, [[row('X'), 0.2], [row('B'), 0.5]]),
+      strip(lower, [[row('B'), 0.5], [row('X'), 0.8]]),
+    ]);
+
+    expect(items(merged.rows)).toEqual(['X:1', 'B:1', 'X:1']);
+  });
+
+  it("labels warnings with their strip", () => {
+    const merged = mergeStrips([
+      { ...upper, result: { rows: [row('A')], warnings: ['Repaired truncated JSON'] } },
+      plainStrip(lower, [row('A')]),
+    ]);
+
+    expect(merged.warnings).toEqual(['Strip 1: Repaired truncated JSON']);
+  });
+});
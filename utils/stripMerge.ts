@@ -0,0 +1,191 @@
+import { CellProvenance, ExtractedDataRow, ExtractionResult } from "../types";
+import { cellKey, getHeaders, parseCellKey } from "./tableUtils";
+
+// Splits a dense page into overlapping horizontal strips and merges the strips' rows back together
+
+// Share of matching values for two readings of the overlap to count as the same row
+const ROW_MATCH_RATIO = 0.8;
+
+// Vertical extent of a strip, normalized (0..1) to the page
+export interface StripBounds {
+  top: number;
+  bottom: number;
+}
+
+export interface StripResult extends StripBounds {
+  result: ExtractionResult;
+}
+
+/**
+ * Evenly sized strips covering the page, each sharing `overlap` of its height with the next.
+ * The overlap should be taller than a row, so every row is whole in at least one strip.
+ */
+export const planStrips = (count: number, overlap: number): StripBounds[] => {
+  if (count <= 1) return [{ top: 0, bottom: 1 }];
+  const height = 1 / (count - (count - 1) * overlap);
+  return Array.from({ length: count }, (_, i) => {
+    const top = i * height * (1 - overlap);
+    return { top, bottom: i === count - 1 ? 1 : top + height };
+  });
+};
+
+const normalizeValue = (value: unknown) => String(value ?? '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+const filled = (row: ExtractedDataRow) => Object.keys(row).filter(k => !isBlank(row[k]));
+
+/**
+ * Two readings of the same row from neighbouring strips. A row cut by the strip edge is read
+ * with some cells missing or clipped, so only cells both readings have are compared, and they
+ * must cover most of the sparser reading.
+ */
+const isSameRow = (a: ExtractedDataRow, b: ExtractedDataRow): boolean => {
+  const common = filled(a).filter(k => !isBlank(b[k]));
+  if (common.length === 0) return false;
+  const equal = common.filter(k => normalizeValue(a[k]) === normalizeValue(b[k])).length;
+  return equal / common.length >= ROW_MATCH_RATIO && common.length * 2 >= Math.min(filled(a).length, filled(b).length);
+};
+
+// A header row printed on the page and read as data by a strip that can see it
+const isHeaderRow = (row: ExtractedDataRow, columns: string[]): boolean => {
+  const values = columns.filter(c => !isBlank(row[c]));
+  return values.length > 0 && values.filter(c => normalizeValue(row[c]) === normalizeValue(c)).length / values.length >= 0.5;
+};
+
+interface MergedRow {
+  row: ExtractedDataRow;
+  provenance: Record<string, CellProvenance>; // By column
+  center: number | null; // Vertical middle on the page, from the cell boxes
+  strip: number; // Latest strip that read the row
+  partial: boolean; // Fewer values than the strip's typical row, as when cut by its edge
+}
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)] ?? 0;
+
+// A strip's rows, with their cell positions moved from the strip image onto the page
+const rowsOf = ({ result, top, bottom }: StripResult, strip: number): MergedRow[] => {
+  const typical = median(result.rows.map(r => filled(r).length));
+  const merged: MergedRow[] = result.rows.map(row => ({ row, provenance: {}, center: null, strip, partial: filled(row).length < typical }));
+  const span = bottom - top;
+  Object.entries(result.provenance ?? {}).forEach(([key, entry]) => {
+    const { rowIndex, column } = parseCellKey(key);
+    if (!merged[rowIndex]) return;
+    merged[rowIndex].provenance[column] = entry.box
+      ? { ...entry, box: { ...entry.box, y: top + entry.box.y * span, height: entry.box.height * span } }
+      : entry;
+  });
+  merged.forEach(r => {
+    const boxes = Object.values(r.provenance).map(e => e.box).filter(b => !!b);
+    if (boxes.length) r.center = (Math.min(...boxes.map(b => b.y)) + Math.max(...boxes.map(b => b.y + b.height))) / 2;
+  });
+  return merged;
+};
+
+// The fuller reading of a row in the overlap, with its blanks filled from the other
+const combine = (a: MergedRow, b: MergedRow): MergedRow => {
+  const [base, other] = filled(b.row).length > filled(a.row).length ? [b, a] : [a, b];
+  const row = { ...base.row };
+  const provenance = { ...base.provenance };
+  Object.keys(other.row).forEach(column => {
+    if (!isBlank(row[column]) || isBlank(other.row[column])) return;
+    row[column] = other.row[column];
+    if (other.provenance[column]) provenance[column] = other.provenance[column];
+  });
+  return { row, provenance, center: base.center ?? other.center, strip: Math.max(a.strip, b.strip), partial: false };
+};
+
+/**
+ * Pairs up the rows both strips read, in order but allowing gaps: either strip may have
+ * skipped a row or read one the other didn't. Returns the matched index pairs (longest
+ * common subsequence under `isSameRow`).
+ */
+export const alignRows = (above: ExtractedDataRow[], below: ExtractedDataRow[]): [number, number][] => {
+  const lengths = Array.from({ length: above.length + 1 }, () => new Array<number>(below.length + 1).fill(0));
+  for (let i = above.length - 1; i >= 0; i--) {
+    for (let j = below.length - 1; j >= 0; j--) {
+      lengths[i][j] = isSameRow(above[i], below[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  for (let i = 0, j = 0; i < above.length && j < below.length;) {
+    if (isSameRow(above[i], below[j]) && lengths[i][j] === lengths[i + 1][j + 1] + 1) pairs.push([i++, j++]);
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+    else j++;
+  }
+  return pairs;
+};
+
+/**
+ * Merges the rows two neighbouring strips read in their overlap. Rows read by both are kept
+ * once. A row only one strip has is kept, unless it is that strip's cut-off edge reading: past
+ * the middle of the overlap when cell positions are known, otherwise an incomplete row beyond
+ * the last (or before the first) row both strips agree on.
+ */
+const mergeOverlap = (above: MergedRow[], below: MergedRow[], middle: number): MergedRow[] => {
+  const geometric = [...above, ...below].every(r => r.center !== null);
+  const pairs = alignRows(above.map(r => r.row), below.map(r => r.row));
+  const firstBelow = pairs.length ? pairs[0][1] : below.length;
+  const lastAbove = pairs.length ? pairs[pairs.length - 1][0] : -1;
+  const isEdgeAbove = (r: MergedRow, i: number) => i > lastAbove && (geometric ? r.center! >= middle : r.partial);
+  const isEdgeBelow = (r: MergedRow, j: number) => j < firstBelow && (geometric ? r.center! < middle : r.partial);
+
+  const out: MergedRow[] = [];
+  let i = 0;
+  let j = 0;
+  [...pairs, [above.length, below.length] as [number, number]].forEach(([pi, pj]) => {
+    const gap = [
+      ...above.slice(i, pi).filter((r, k) => !isEdgeAbove(r, i + k)),
+      ...below.slice(j, pj).filter((r, k) => !isEdgeBelow(r, j + k)),
+    ];
+    out.push(...(geometric ? gap.sort((a, b) => a.center! - b.center!) : gap));
+    if (pi < above.length) out.push(combine(above[pi], below[pj]));
+    [i, j] = [pi + 1, pj + 1];
+  });
+  return out;
+};
+
+/**
+ * Joins the strips of one page, top to bottom, into a single result. The first strip's columns
+ * are the table's; header rows later strips read again are dropped. Rows the neighbouring
+ * strips both read in their overlap are kept once, as the most complete reading, even when
+ * one strip skipped a row there or read a cut-off row at its edge.
+ */
+export const mergeStrips = (strips: StripResult[]): ExtractionResult => {
+  const columns = getHeaders(strips.find(s => s.result.rows.length > 0)?.result.rows ?? []);
+  let merged: MergedRow[] = [];
+
+  strips.forEach((strip, index) => {
+    const rows = rowsOf(strip, index).filter((r, i) => index === 0 || i > 0 || !isHeaderRow(r.row, columns));
+    if (index === 0) {
+      merged = rows;
+      return;
+    }
+    const previous = strips[index - 1];
+    // Rows the previous strip read that may lie in its overlap with this one
+    const firstShared = merged.findIndex(r => r.strip === index - 1 && (r.center === null || r.center >= strip.top));
+    const from = firstShared < 0 ? merged.length : firstShared;
+    // And this strip's rows that may lie in it
+    const lastShared = rows.length - 1 - [...rows].reverse().findIndex(r => r.center === null || r.center <= previous.bottom);
+    const to = lastShared > rows.length - 1 ? 0 : lastShared + 1;
+    merged = [
+      ...merged.slice(0, from),
+      ...mergeOverlap(merged.slice(from), rows.slice(0, to), (strip.top + previous.bottom) / 2),
+      ...rows.slice(to),
+    ];
+  });
+
+  const provenance: Record<string, CellProvenance> = {};
+  merged.forEach((r, rowIndex) => Object.entries(r.provenance).forEach(([column, entry]) => {
+    provenance[cellKey(rowIndex, column)] = entry;
+  }));
+  const warnings = strips.flatMap((s, i) => (s.result.warnings ?? []).map(w => `Strip ${i + 1}: ${w}`));
+
+  return {
+    rows: merged.map(r => r.row),
+    provenance: strips.some(s => s.result.provenance) ? provenance : undefined,
+    warnings: warnings.length ? warnings : undefined,
+  };
+};
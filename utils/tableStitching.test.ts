@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { ExtractedDataRow, Page } from "../types";
+import { isRepeatedHeader, joinRows, matchColumns, SOURCE_PAGE_COLUMN, stitchDocuments } from "./tableStitching";
+
+const page = (id: string, sourcePageNumber: number, extractedData: ExtractedDataRow[], extra: Partial<Page> = {}): Page => ({
+  id, name: `report.pdf - Page ${sourcePageNumber}`, originalImage: '', processedImage: null, extractedData,
+  status: 'complete', errorMessage: null, sourceFile: 'report.pdf', sourcePageNumber, ...extra,
+});
+
+describe("matchColumns", () => {
+  it("maps columns by name, ignoring case and punctuation, and keeps new ones", () => {
+    const mapping = matchColumns(['Date', 'Description', 'Amount'], ['date', 'DESCRIPTION', 'Amount ($)', 'Notes']);
+    expect(mapping && Object.fromEntries(mapping)).toEqual({
+      'date': 'Date', 'DESCRIPTION': 'Description', 'Amount ($)': 'Amount', 'Notes': 'Notes',
+    });
+  });
+
+  it("maps columns by position when a page has the same count under other names", () => {
+    const mapping = matchColumns(['Date', 'Amount'], ['column_1', 'column_2']);
+    expect(mapping && Object.fromEntries(mapping)).toEqual({ column_1: 'Date', column_2: 'Amount' });
+  });
+
+  it("rejects a page that doesn't continue the table", () => {
+    expect(matchColumns(['Date', 'Amount'], ['Name', 'Email', 'Phone'])).toBeNull();
+  });
+});
+
+describe("isRepeatedHeader", () => {
+  it("spots a header row read as data", () => {
+    expect(isRepeatedHeader({ Date: 'DATE', Amount: 'Amount', Notes: '' }, ['Date', 'Amount', 'Notes'])).toBe(true);
+  });
+
+  it("leaves data rows and empty rows alone", () => {
+    expect(isRepeatedHeader({ Date: '2024-01-02', Amount: 5 }, ['Date', 'Amount'])).toBe(false);
+    expect(isRepeatedHeader({ Date: '', Amount: null }, ['Date', 'Amount'])).toBe(false);
+  });
+});
+
+describe("joinRows", () => {
+  it("joins wrapped text, fills blanks and records both pages", () => {
+    const head = { [SOURCE_PAGE_COLUMN]: 3, Description: 'Office', Amount: '' };
+    const tail = { [SOURCE_PAGE_COLUMN]: 4, Description: 'supplies', Amount: '12.50' };
+    expect(joinRows(head, tail)).toEqual({ [SOURCE_PAGE_COLUMN]: '3-4', Description: 'Office supplies', Amount: '12.50' });
+  });
+
+  it("keeps numbers and flags of the head as they are", () => {
+    const head = { [SOURCE_PAGE_COLUMN]: 3, Amount: 12.5, Paid: true, Description: 'Office' };
+    const tail = { [SOURCE_PAGE_COLUMN]: 4, Amount: '7', Paid: 'no', Description: 'supplies' };
+    expect(joinRows(head, tail)).toEqual({ [SOURCE_PAGE_COLUMN]: '3-4', Amount: 12.5, Paid: true, Description: 'Office supplies' });
+  });
+});
+
+describe("stitchDocuments", () => {
+  it("appends continuation pages, drops repeated headers and joins a row split by the page break", () => {
+    const [table] = stitchDocuments([
+      page('p1', 1, [
+        { Date: '2024-01-02', Description: 'Rent', Amount: 1000 },
+        { Date: '2024-01-03', Description: 'Office', Amount: 12.5 },
+      ]),
+      page('p2', 2, [
+        { Date: 'Date', Description: 'Description', Amount: 'Amount' },
+        { Date: '', Description: 'supplies', Amount: '' },
+        { Date: '2024-01-04', Description: 'Travel', Amount: 80 },
+      ]),
+    ]);
+
+    expect(table.pageIds).toEqual(['p1', 'p2']);
+    expect(table.headers).toEqual([SOURCE_PAGE_COLUMN, 'Date', 'Description', 'Amount']);
+    expect(table.rows).toEqual([
+      { [SOURCE_PAGE_COLUMN]: 1, Date: '2024-01-02', Description: 'Rent', Amount: 1000 },
+      { [SOURCE_PAGE_COLUMN]: '1-2', Date: '2024-01-03', Description: 'Office supplies', Amount: 12.5 },
+      { [SOURCE_PAGE_COLUMN]: 2, Date: '2024-01-04', Description: 'Travel', Amount: 80 },
+    ]);
+    expect(table.droppedHeaderRows).toBe(1);
+    expect(table.joinedRows).toBe(1);
+  });
+
+  it("doesn't join across a page that wasn't extracted", () => {
+    const [table] = stitchDocuments([
+      page('p1', 1, [{ Date: '2024-01-02', Description: 'Rent' }]),
+      page('p2', 2, null, { status: 'error' }),
+      page('p3', 3, [{ Date: '', Description: 'continued' }]),
+    ]);
+
+    expect(table.rows.map(r => r.Description)).toEqual(['Rent', 'continued']);
+    expect(table.joinedRows).toBe(0);
+  });
+
+  it("starts a new table for a page with other columns, and one per source file", () => {
+    const tables = stitchDocuments([
+      page('p1', 1, [{ Date: '2024-01-02', Amount: 5 }]),
+      page('p2', 2, [{ Name: 'Ada', Email: 'ada@example.com', Phone: '123' }]),
+      page('q1', 1, [{ Date: '2024-02-01', Amount: 7 }], { sourceFile: 'other.pdf' }),
+    ]);
+
+    expect(tables.map(t => [t.sourceFile, t.pageIds])).toEqual([
+      ['report.pdf', ['p1']], ['report.pdf', ['p2']], ['other.pdf', ['q1']],
+    ]);
+  });
+
+  it("carries column type overrides and hand edits over to the table", () => {
+    const [table] = stitchDocuments([
+      page('p1', 1, [{ Date: '2024-01-02', Amount: 5 }]),
+      page('p2', 2, [{ column_1: '2024-01-03', column_2: 6 }], { columnTypes: { column_2: 'currency' }, editedCells: ['0:column_2'] }),
+    ]);
+
+    expect(table.columnTypes).toEqual({ Amount: 'currency' });
+    expect(table.editedCells).toEqual(['1:Amount']);
+  });
+});
@@ -0,0 +1,177 @@
+import { ColumnType, ExtractedDataRow, Page } from "../types";
+import { cellKey, getHeaders, parseCellKey } from "./tableUtils";
+
+// Column added to stitched rows so every row can be traced back to its page
+export const SOURCE_PAGE_COLUMN = 'Source Page';
+
+// Share of columns two pages must have in common for the second to continue the first
+const CONTINUATION_OVERLAP = 0.6;
+// A column filled in at least this share of rows identifies where a new row starts
+const ANCHOR_FILL_RATIO = 0.9;
+
+/** One logical table assembled from consecutive pages of the same source file. */
+export interface StitchedTable {
+  sourceFile: string;
+  pageIds: string[];
+  headers: string[];
+  rows: ExtractedDataRow[];
+  columnTypes: Record<string, ColumnType>;
+  droppedHeaderRows: number;
+  joinedRows: number;
+  editedCells: string[]; // Hand-edited cells of the pages, keyed by row and column of the table
+}
+
+// Pages restored from projects saved before sourceFile existed only carry the generated name
+export const getSourceFile = (page: Page): string =>
+  page.sourceFile ?? page.name.replace(/ - Page \d+$/, '');
+
+const getSourcePageNumber = (page: Page, fallback: number): number =>
+  page.sourcePageNumber ?? Number(page.name.match(/ - Page (\d+)$/)?.[1] ?? fallback);
+
+const normalizeLabel = (value: unknown) => String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Maps the columns of a page onto the table's columns: by name where they match,
+ * or by position when the page has the same number of columns under different names
+ * (continuation pages without a printed header often get invented column names).
+ * Returns null when the page doesn't look like a continuation.
+ */
+export const matchColumns = (tableHeaders: string[], pageHeaders: string[]): Map<string, string> | null => {
+  const byLabel = new Map(tableHeaders.map(h => [normalizeLabel(h), h]));
+  const mapping = new Map<string, string>();
+  pageHeaders.forEach(h => {
+    const target = byLabel.get(normalizeLabel(h));
+    if (target) mapping.set(h, target);
+  });
+
+  const smaller = Math.min(tableHeaders.length, pageHeaders.length);
+  if (smaller > 0 && mapping.size / smaller >= CONTINUATION_OVERLAP) {
+    // Columns only this page has are kept as new columns
+    pageHeaders.forEach(h => { if (!mapping.has(h)) mapping.set(h, h); });
+    return mapping;
+  }
+  if (pageHeaders.length === tableHeaders.length) {
+    return new Map(pageHeaders.map((h, i) => [h, tableHeaders[i]]));
+  }
+  return null;
+};
+
+// A header printed again at the top of a page and extracted as data
+export const isRepeatedHeader = (row: ExtractedDataRow, headers: string[]): boolean => {
+  const filled = headers.filter(h => !isBlank(row[h]));
+  if (filled.length === 0) return false;
+  const matches = filled.filter(h => normalizeLabel(row[h]) === normalizeLabel(h)).length;
+  return matches / filled.length >= 0.5;
+};
+
+const anchorColumns = (rows: ExtractedDataRow[], headers: string[]): string[] => {
+  if (rows.length === 0) return [];
+  return headers.filter(h => h !== SOURCE_PAGE_COLUMN && rows.filter(r => !isBlank(r[h])).length / rows.length >= ANCHOR_FILL_RATIO);
+};
+
+// The tail of a row cut by the page break: it lacks a value every complete row has
+const isFragment = (row: ExtractedDataRow, anchors: string[]): boolean =>
+  anchors.some(h => isBlank(row[h])) && Object.keys(row).some(h => h !== SOURCE_PAGE_COLUMN && !isBlank(row[h]));
+
+/**
+ * Puts the tail of a split row back onto its head. Blanks of the head are filled from the tail;
+ * text wrapped across the break is joined. Numbers and flags aren't split, so a head value of
+ * that kind is kept as it is rather than turned into text.
+ */
+export const joinRows = (head: ExtractedDataRow, tail: ExtractedDataRow): ExtractedDataRow => {
+  const joined: ExtractedDataRow = { ...head };
+  Object.entries(tail).forEach(([key, value]) => {
+    if (key === SOURCE_PAGE_COLUMN || isBlank(value)) return;
+    if (isBlank(head[key])) joined[key] = value;
+    else if (typeof head[key] === 'string' && typeof value === 'string') joined[key] = `${head[key]} ${value}`;
+  });
+  const spanned = String(head[SOURCE_PAGE_COLUMN]).split('-');
+  if (!spanned.includes(String(tail[SOURCE_PAGE_COLUMN]))) joined[SOURCE_PAGE_COLUMN] = `${spanned[0]}-${tail[SOURCE_PAGE_COLUMN]}`;
+  return joined;
+};
+
+const newTable = (sourceFile: string): StitchedTable => ({
+  sourceFile, pageIds: [], headers: [], rows: [], columnTypes: {}, droppedHeaderRows: 0, joinedRows: 0, editedCells: [],
+});
+
+/**
+ * Merge-document mode: stitches the extracted pages of each source file into logical tables.
+ * Continuation pages are appended to the table above them, repeated header rows are dropped
+ * and a row split by a page break is joined back together. Every row records its page
+ * (a joined row lists both, e.g. "3-4") in the Source Page column.
+ */
+export const stitchDocuments = (pages: Page[]): StitchedTable[] => {
+  const groups = new Map<string, Page[]>();
+  pages.forEach(page => {
+    const source = getSourceFile(page);
+    groups.set(source, [...(groups.get(source) ?? []), page]);
+  });
+
+  const tables: StitchedTable[] = [];
+  groups.forEach((groupPages, sourceFile) => {
+    let table: StitchedTable | null = null;
+    let previousPageNumber: number | null = null;
+
+    groupPages.forEach((page, index) => {
+      const pageNumber = getSourcePageNumber(page, index + 1);
+      if (page.status !== 'complete' || !page.extractedData?.length) {
+        // A missing page breaks the chain: nothing after it can be joined across the gap
+        previousPageNumber = null;
+        return;
+      }
+
+      const pageHeaders = getHeaders(page.extractedData);
+      let mapping = table ? matchColumns(table.headers, pageHeaders) : null;
+      if (!table || !mapping) {
+        table = newTable(sourceFile);
+        tables.push(table);
+        mapping = new Map(pageHeaders.map(h => [h, h]));
+      }
+      const current: StitchedTable = table;
+      const isContinuation = current.rows.length > 0 && previousPageNumber === pageNumber - 1;
+
+      mapping.forEach(target => { if (!current.headers.includes(target)) current.headers.push(target); });
+      Object.entries(page.columnTypes ?? {}).forEach(([column, type]) => {
+        current.columnTypes[mapping.get(column) ?? column] = type;
+      });
+
+      const anchors = anchorColumns(current.rows, current.headers);
+      const edited = (page.editedCells ?? []).map(parseCellKey);
+      // Edits follow their row into the table, including a fragment joined onto the row above
+      const keepEdits = (sourceIndex: number, tableIndex: number) => edited
+        .filter(e => e.rowIndex === sourceIndex)
+        .forEach(e => current.editedCells.push(cellKey(tableIndex, mapping.get(e.column) ?? e.column)));
+      let leading = true;
+      page.extractedData.forEach((source, sourceIndex) => {
+        const row: ExtractedDataRow = {};
+        Object.entries(source).forEach(([key, value]) => { row[mapping.get(key) ?? key] = value; });
+        row[SOURCE_PAGE_COLUMN] = pageNumber;
+
+        if (isRepeatedHeader(row, current.headers)) {
+          current.droppedHeaderRows++;
+          return;
+        }
+        if (leading && isContinuation && isFragment(row, anchors)) {
+          current.rows[current.rows.length - 1] = joinRows(current.rows[current.rows.length - 1], row);
+          current.joinedRows++;
+          keepEdits(sourceIndex, current.rows.length - 1);
+          return;
+        }
+        leading = false;
+        current.rows.push(row);
+        keepEdits(sourceIndex, current.rows.length - 1);
+      });
+
+      current.pageIds.push(page.id);
+      previousPageNumber = pageNumber;
+    });
+  });
+
+  tables.forEach(table => {
+    table.headers = [SOURCE_PAGE_COLUMN, ...table.headers];
+    table.rows = table.rows.map(row => Object.fromEntries(table.headers.map(h => [h, row[h] ?? ''])));
+  });
+  return tables;
+};
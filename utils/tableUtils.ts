@@ -0,0 +1,30 @@
+import { BoundingBox, CellProvenance, ExtractedDataRow } from "../types";
+
+// Stable identifier for a cell, used to track manual edits on a Page
+export const cellKey = (rowIndex: number, column: string): string => `${rowIndex}:${column}`;
+
+export const parseCellKey = (key: string): { rowIndex: number; column: string } => {
+  const separator = key.indexOf(':');
+  return { rowIndex: Number(key.slice(0, separator)), column: key.slice(separator + 1) };
+};
+
+// Superset of keys across all rows, in first-seen order
+export const getHeaders = (rows: ExtractedDataRow[]): string[] => {
+  return Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+};
+
+// Union of the source boxes of every cell in a row, or null when the row has no provenance
+export const rowBoundingBox = (provenance: Record<string, CellProvenance> | undefined, rowIndex: number): BoundingBox | null => {
+  if (!provenance) return null;
+  const prefix = `${rowIndex}:`;
+  const boxes = Object.entries(provenance)
+    .filter(([key, entry]) => key.startsWith(prefix) && entry.box)
+    .map(([, entry]) => entry.box!);
+  if (boxes.length === 0) return null;
+
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
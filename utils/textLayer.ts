@@ -0,0 +1,121 @@
+import { BoundingBox, ImageProcessingSettings, Page, Point, Quad } from "../types";
+import { applyTransform, flattenedSize, perspectiveTransform } from "./imageGeometry";
+import { getHeaders, cellKey } from "./tableUtils";
+
+// Text placed over a page image, in pixels of that image
+
+export interface TextLayerWord {
+  text: string;
+  box: BoundingBox; // Pixels
+  confidence?: number; // 0..1
+  rowIndex: number;
+}
+
+export interface TextLayerPage {
+  name: string;
+  width: number;
+  height: number;
+  words: TextLayerWord[];
+  unplaced: number; // Filled cells without a source position
+}
+
+type Size = { width: number; height: number };
+
+const rotatePoint = (p: Point, size: Size, rotated: Size, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const dx = p.x - size.width / 2;
+  const dy = p.y - size.height / 2;
+  return {
+    x: rotated.width / 2 + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: rotated.height / 2 + dx * Math.sin(rad) + dy * Math.cos(rad),
+  };
+};
+
+/**
+ * Maps a point of the processed image back onto the original scan by undoing the pipeline
+ * of `renderPage` in reverse: fine deskew, perspective warp, then the quarter turns.
+ */
+export const toOriginalPoint = (p: Point, settings: ImageProcessingSettings, original: Size): Point => {
+  const turned = settings.rotation % 180 !== 0;
+  const rotatedSize = turned ? { width: original.height, height: original.width } : original;
+
+  let quad: Quad | null = null;
+  let warpedSize = rotatedSize;
+  if (settings.corners) {
+    quad = settings.corners.map(c => ({ x: c.x * rotatedSize.width, y: c.y * rotatedSize.height })) as Quad;
+    warpedSize = flattenedSize(quad);
+  }
+
+  let point = p;
+  if (settings.skewAngle) {
+    const rad = (settings.skewAngle * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(rad));
+    const cos = Math.abs(Math.cos(rad));
+    const skewedSize = {
+      width: warpedSize.width * cos + warpedSize.height * sin,
+      height: warpedSize.width * sin + warpedSize.height * cos,
+    };
+    point = rotatePoint(point, skewedSize, warpedSize, -settings.skewAngle);
+  }
+  if (quad) {
+    const rect: Quad = [{ x: 0, y: 0 }, { x: warpedSize.width, y: 0 }, { x: warpedSize.width, y: warpedSize.height }, { x: 0, y: warpedSize.height }];
+    point = applyTransform(perspectiveTransform(rect, quad), point);
+  }
+  return rotatePoint(point, rotatedSize, original, -settings.rotation);
+};
+
+// Size of the image `renderPage` produces from an original of `original` size
+export const processedSize = (settings: ImageProcessingSettings, original: Size): Size => {
+  let size = settings.rotation % 180 !== 0 ? { width: original.height, height: original.width } : original;
+  if (settings.corners) {
+    size = flattenedSize(settings.corners.map(c => ({ x: c.x * size.width, y: c.y * size.height })) as Quad);
+  }
+  if (settings.skewAngle) {
+    const rad = (settings.skewAngle * Math.PI) / 180;
+    const sin = Math.abs(Math.sin(rad));
+    const cos = Math.abs(Math.cos(rad));
+    size = { width: size.width * cos + size.height * sin, height: size.width * sin + size.height * cos };
+  }
+  return size;
+};
+
+/**
+ * The page's cells as positioned words over an image of `image` size. Cell boxes are relative
+ * to the processed image the model saw; with `settings` they are mapped back onto the original
+ * scan (a warped box becomes its bounding rectangle there).
+ */
+export const buildTextLayer = (page: Page, image: Size, settings?: ImageProcessingSettings): TextLayerPage => {
+  const rows = page.extractedData ?? [];
+  const headers = getHeaders(rows);
+  const seen = settings ? processedSize(settings, image) : image;
+  const words: TextLayerWord[] = [];
+  let unplaced = 0;
+
+  rows.forEach((row, rowIndex) => headers.forEach(column => {
+    const value = row[column];
+    const text = value === null || value === undefined ? '' : String(value).trim();
+    if (!text) return;
+    const provenance = page.cellProvenance?.[cellKey(rowIndex, column)];
+    if (!provenance?.box) {
+      unplaced++;
+      return;
+    }
+    const { x, y, width, height } = provenance.box;
+    const corners = [
+      { x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height },
+    ].map(c => ({ x: c.x * seen.width, y: c.y * seen.height }));
+    const mapped = settings ? corners.map(c => toOriginalPoint(c, settings, image)) : corners;
+
+    const left = Math.max(0, Math.min(...mapped.map(c => c.x)));
+    const top = Math.max(0, Math.min(...mapped.map(c => c.y)));
+    const right = Math.min(image.width, Math.max(...mapped.map(c => c.x)));
+    const bottom = Math.min(image.height, Math.max(...mapped.map(c => c.y)));
+    if (right <= left || bottom <= top) {
+      unplaced++;
+      return;
+    }
+    words.push({ text, box: { x: left, y: top, width: right - left, height: bottom - top }, confidence: provenance.confidence, rowIndex });
+  }));
+
+  return { name: page.name, width: image.width, height: image.height, words, unplaced };
+};
@@ -0,0 +1,147 @@
+import * as XLSX from "xlsx";
+import { Page } from "../types";
+import { parseCellKey } from "./tableUtils";
+import { getSourceFile } from "./tableStitching";
+
+// Workbook finishing for the Excel exports: sheet names, column widths, edit comments and header styling
+
+const MAX_SHEET_NAME = 31;
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+const COMMENT_AUTHOR = 'Digitizer';
+
+/**
+ * A sheet name Excel accepts and no other sheet in `used` has (compared case-insensitively):
+ * without []:*?/\, at most 31 characters, and not the reserved "History". A trailing
+ * " - Page N" survives truncation so pages of a long file name stay apart.
+ */
+export const uniqueSheetName = (name: string, used: Set<string>, fallback: string): string => {
+  const cleaned = name.replace(/[\[\]:*?\/\\]/g, '_').replace(/^'+|'+$/g, '').trim();
+  const usable = cleaned && cleaned.toLowerCase() !== 'history' ? cleaned : fallback;
+  const keep = usable.match(/ - Page \d+$/)?.[0] ?? '';
+  const stem = usable.slice(0, usable.length - keep.length);
+
+  const fit = (suffix: string) => stem.substring(0, MAX_SHEET_NAME - keep.length - suffix.length) + keep + suffix;
+  let sheetName = fit('');
+  for (let n = 2; used.has(sheetName.toLowerCase()); n++) sheetName = fit(` (${n})`);
+  used.add(sheetName.toLowerCase());
+  return sheetName;
+};
+
+// Page names carry the uploaded file name; the extension only takes up sheet name space
+export const pageSheetName = (page: Page): string => {
+  const file = getSourceFile(page);
+  const base = file.replace(/\.[a-z0-9]{2,5}$/i, '');
+  return page.name.startsWith(file) ? base + page.name.slice(file.length) : page.name.replace(/\.[a-z0-9]{2,5}$/i, '');
+};
+
+const displayLength = (cell: XLSX.CellObject | undefined): number => {
+  if (!cell || cell.v === undefined || cell.v === null) return 0;
+  if (cell.v instanceof Date) return 10;
+  if (typeof cell.v === 'number' && cell.z) return Math.max(String(cell.v).length, String(cell.z).replace(/[^0#.,%]/g, '').length);
+  return Math.max(...String(cell.v).split(/\r?\n/).map(line => line.length));
+};
+
+// Column widths from the longest value in each column, header included
+export const autoFitColumns = (ws: XLSX.WorkSheet) => {
+  if (!ws['!ref']) return;
+  const range = XLSX.utils.decode_range(ws['!ref']);
+  const cols: XLSX.ColInfo[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    let longest = 0;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      longest = Math.max(longest, displayLength(ws[XLSX.utils.encode_cell({ r, c })]));
+    }
+    cols.push({ wch: Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2)) });
+  }
+  ws['!cols'] = cols;
+};
+
+/**
+ * Adds an Excel comment to cells. `notes` are keyed by cell key, whose row index counts data
+ * rows, so row 0 is the sheet's second row under the header.
+ */
+export const addCellComments = (ws: XLSX.WorkSheet, headers: string[], notes: Record<string, string>) => {
+  Object.entries(notes).forEach(([key, text]) => {
+    const { rowIndex, column } = parseCellKey(key);
+    const c = headers.indexOf(column);
+    if (c < 0) return;
+    const address = XLSX.utils.encode_cell({ r: rowIndex + 1, c });
+    // A cell without a value can still carry the comment
+    const cell: XLSX.CellObject = ws[address] ?? (ws[address] = { t: 'z' });
+    const comments = [{ a: COMMENT_AUTHOR, t: text }] as XLSX.Comments;
+    comments.hidden = true;
+    cell.c = comments;
+  });
+};
+
+export const addEditComments = (ws: XLSX.WorkSheet, headers: string[], editedCells: string[]) => {
+  addCellComments(ws, headers, Object.fromEntries(editedCells.map(key => [key, 'Edited by hand after extraction'])));
+};
+
+// One row per page so a reviewer can see what each sheet came from and what needs attention
+export const buildSummarySheet = (pages: Page[], sheetNames: Map<string, string> = new Map()): XLSX.WorkSheet => {
+  const rows = pages.map((page, index) => ({
+    "Page Number": index + 1,
+    "Name": page.name,
+    "Source File": getSourceFile(page),
+    "Sheet": sheetNames.get(page.id) ?? '',
+    "Status": page.status,
+    "Rows": page.extractedData?.length ?? 0,
+    "Edited Cells": page.editedCells?.length ?? 0,
+    "Consistency Warning": page.consistencyWarning ?? '',
+    "Error": page.errorMessage ?? '',
+  }));
+  const ws = XLSX.utils.json_to_sheet(rows);
+  autoFitColumns(ws);
+  return ws;
+};
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const BOLD_FONT = '<font><b/><sz val="12"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font>';
+const FROZEN_HEADER = '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/>';
+
+// Appends an entry to a counted styles.xml list and returns its index
+const appendStyle = (styles: string, list: string, entry: string): [string, number] => {
+  const pattern = new RegExp(`<${list} count="(\\d+)">([\\s\\S]*?)</${list}>`);
+  const match = styles.match(pattern);
+  if (!match) return [styles, -1];
+  const index = Number(match[1]);
+  return [styles.replace(pattern, `<${list} count="${index + 1}">${match[2]}${entry}</${list}>`), index];
+};
+
+/**
+ * The workbook as .xlsx bytes with a bold, frozen header row on every sheet. The SheetJS
+ * community build writes neither styles nor panes, so both are patched into the package.
+ */
+export const writeStyledWorkbook = (wb: XLSX.WorkBook): Uint8Array => {
+  const data = new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+  const zip = XLSX.CFB.read(data, { type: 'array' });
+
+  const stylesFile = XLSX.CFB.find(zip, '/xl/styles.xml');
+  if (!stylesFile) return data;
+  let styles = decoder.decode(stylesFile.content);
+  let fontId: number;
+  let headerStyle: number;
+  [styles, fontId] = appendStyle(styles, 'fonts', BOLD_FONT);
+  if (fontId < 0) return data;
+  [styles, headerStyle] = appendStyle(styles, 'cellXfs', `<xf numFmtId="0" fontId="${fontId}" fillId="0" borderId="0" xfId="0" applyFont="1"/>`);
+  if (headerStyle < 0) return data;
+  XLSX.CFB.utils.cfb_add(zip, '/xl/styles.xml', encoder.encode(styles));
+
+  const sheetPaths = zip.FullPaths
+    .map((path: string) => path.match(/\/xl\/worksheets\/sheet\d+\.xml$/)?.[0])
+    .filter(Boolean) as string[];
+  sheetPaths.forEach(sheetPath => {
+    const sheet = decoder.decode(XLSX.CFB.find(zip, sheetPath).content)
+      .replace(/<row r="1"([^>]*)>([\s\S]*?)<\/row>/, (_, attributes: string, cells: string) =>
+        `<row r="1"${attributes}>${cells.replace(/<c r="([A-Z]+1)"(?: s="\d+")?/g, `<c r="$1" s="${headerStyle}"`)}</row>`)
+      .replace(/<sheetView ([^>]*?)\/>/, `<sheetView $1>${FROZEN_HEADER}</sheetView>`);
+    XLSX.CFB.utils.cfb_add(zip, sheetPath, encoder.encode(sheet));
+  });
+
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true }));
+};
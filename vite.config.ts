@@ -1,7 +1,35 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// PDF.js fetches character maps and standard fonts by URL while rendering. They are served from
+// node_modules during development and copied into the build under /pdfjs, so PDF import needs no network.
+const PDFJS_ASSET_DIRS = ['cmaps', 'standard_fonts'];
+
+const pdfjsAssets = (): Plugin => {
+  const root = path.resolve(__dirname, 'node_modules/pdfjs-dist');
+  return {
+    name: 'pdfjs-assets',
+    configureServer(server) {
+      server.middlewares.use(`${server.config.base}pdfjs`, (req, res, next) => {
+        const file = path.join(root, decodeURIComponent((req.url ?? '').split('?')[0]));
+        const allowed = PDFJS_ASSET_DIRS.some(dir => file.startsWith(path.join(root, dir) + path.sep));
+        if (!allowed || !fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+        res.setHeader('Content-Type', 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      PDFJS_ASSET_DIRS.forEach(dir => {
+        fs.readdirSync(path.join(root, dir)).forEach(name => {
+          this.emitFile({ type: 'asset', fileName: `pdfjs/${dir}/${name}`, source: fs.readFileSync(path.join(root, dir, name)) });
+        });
+      });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +37,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), pdfjsAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.EXTRACTION_PROVIDER': JSON.stringify(env.EXTRACTION_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.BATCH_CONCURRENCY': JSON.stringify(env.BATCH_CONCURRENCY),
+        'process.env.MAX_IMAGE_MEGAPIXELS': JSON.stringify(env.MAX_IMAGE_MEGAPIXELS)
       },
       resolve: {
         alias: {
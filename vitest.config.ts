@@ -0,0 +1,16 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Tests run in Node without the build-time environment defines of vite.config.ts, so providers
+// and limits fall back to their defaults unless a test sets process.env itself.
+export default defineConfig({
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**'],
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  }
+});